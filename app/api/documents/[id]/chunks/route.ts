@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getDocument, listChunks, replaceChunks } from "@/lib/store";
+import type { DocumentChunk } from "@/lib/segmentation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!getDocument(id)) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ chunks: listChunks(id) });
+  } catch (error) {
+    console.error("Error loading chunks:", error);
+    return NextResponse.json(
+      { error: "Failed to load chunks." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { chunks } = (await req.json()) as { chunks?: DocumentChunk[] };
+
+    if (!Array.isArray(chunks)) {
+      return NextResponse.json(
+        { error: "Chunks are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!replaceChunks(id, chunks)) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ chunks: listChunks(id) });
+  } catch (error) {
+    console.error("Error saving chunks:", error);
+    return NextResponse.json(
+      { error: "Failed to save chunks." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { deleteDocument, getDocument, saveDocuments, type StoredDocument } from "@/lib/store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const document = getDocument(id);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ document });
+  } catch (error) {
+    console.error("Error loading document:", error);
+    return NextResponse.json(
+      { error: "Failed to load document." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { document } = (await req.json()) as { document?: StoredDocument };
+
+    if (!document?.name || (document.id && document.id !== id)) {
+      return NextResponse.json(
+        { error: "A document with a name and matching id is required" },
+        { status: 400 }
+      );
+    }
+
+    saveDocuments([{ ...document, id }]);
+
+    return NextResponse.json({ document: getDocument(id) });
+  } catch (error) {
+    console.error("Error saving document:", error);
+    return NextResponse.json(
+      { error: "Failed to save document." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!deleteDocument(id)) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error("Error deleting document:", error);
+    return NextResponse.json(
+      { error: "Failed to delete document." },
+      { status: 500 }
+    );
+  }
+}
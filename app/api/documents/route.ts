@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { clearDocuments, listDocuments, saveDocuments, type StoredDocument } from "@/lib/store";
+
+// ?workspaceId= limits listing and clearing to one workspace
+export async function GET(req: Request) {
+  try {
+    const workspaceId = new URL(req.url).searchParams.get("workspaceId") ?? undefined;
+    return NextResponse.json({ documents: listDocuments(workspaceId) });
+  } catch (error) {
+    console.error("Error listing documents:", error);
+    return NextResponse.json(
+      { error: "Failed to load documents." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { documents } = (await req.json()) as { documents?: StoredDocument[] };
+
+    if (!Array.isArray(documents) || documents.some((doc) => !doc?.id || !doc.name)) {
+      return NextResponse.json(
+        { error: "Documents with an id and name are required" },
+        { status: 400 }
+      );
+    }
+
+    saveDocuments(documents);
+
+    return NextResponse.json({ saved: documents.length }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving documents:", error);
+    return NextResponse.json(
+      { error: "Failed to save documents." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const workspaceId = new URL(req.url).searchParams.get("workspaceId") ?? undefined;
+    return NextResponse.json({ deleted: clearDocuments(workspaceId) });
+  } catch (error) {
+    console.error("Error clearing documents:", error);
+    return NextResponse.json(
+      { error: "Failed to clear documents." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { embedSegmented, ingestFile, segmentExtracted, UnsupportedDocumentError } from "@/lib/ingestion";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "A file is required" },
+        { status: 400 }
+      );
+    }
+
+    const id = formData.get("id");
+    const extracted = await ingestFile({
+      name: file.name,
+      type: file.type,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    const segmented = segmentExtracted(typeof id === "string" && id ? id : `doc_${Date.now()}`, extracted);
+
+    return NextResponse.json(await embedSegmented(segmented));
+  } catch (error) {
+    if (error instanceof UnsupportedDocumentError) {
+      return NextResponse.json({ error: error.message }, { status: 415 });
+    }
+    console.error("Error ingesting document:", error);
+    return NextResponse.json(
+      { error: "Failed to extract document text." },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { generateClaimProfile } from "@/lib/llm/generate-claim-profile";
+import { getLanguageModel, getModelInfo } from "@/lib/llm/provider";
+
+export async function POST(req: Request) {
+  try {
+    const { query } = (await req.json()) as { query?: string };
+
+    if (!query?.trim()) {
+      return NextResponse.json(
+        { error: "Query is required" },
+        { status: 400 }
+      );
+    }
+
+    const { profile, source } = await generateClaimProfile(getLanguageModel(getModelInfo()), query);
+
+    return NextResponse.json({ profile, source });
+  } catch (error) {
+    console.error("Error parsing query:", error);
+    return NextResponse.json(
+      { error: "Failed to parse query. Please try again." },
+      { status: 500 }
+    );
+  }
+}
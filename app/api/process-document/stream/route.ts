@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import type { ClaimProfile } from "@/lib/claim-profile";
+import type { ClarificationTurn } from "@/lib/decision";
+import { InvalidDecisionError } from "@/lib/llm/errors";
+import { streamDecision } from "@/lib/llm/generate-decision";
+import { prepareDecisionPrompt } from "@/lib/llm/prompt";
+import { getLanguageModel, getModelInfo } from "@/lib/llm/provider";
+import type { RetrievalDocument } from "@/lib/retrieval";
+import { reviewDecision } from "@/lib/review";
+import { saveChunkEmbeddings, withStoredEmbeddings } from "@/lib/store";
+
+interface StreamRequest {
+  query?: string;
+  documents?: RetrievalDocument[];
+  history?: ClarificationTurn[];
+  claimProfile?: ClaimProfile;
+  // Set when the documents are in the server store, which holds their chunk embeddings
+  embeddingsStored?: boolean;
+}
+
+/**
+ * Streaming variant of /api/process-document. Responds with
+ * newline-delimited JSON events: "retrieval" once the context is chosen,
+ * "partial" as the decision is generated, then "final" (the decision
+ * after reviewDecision) or "error".
+ */
+
+export async function POST(req: Request) {
+  let body: StreamRequest;
+  try {
+    body = ((await req.json()) ?? {}) as StreamRequest;
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const { query, documents, history, claimProfile, embeddingsStored } = body;
+  if (!query || !Array.isArray(documents) || documents.length === 0) {
+    return NextResponse.json(
+      { error: "Query and documents are required" },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+
+      try {
+        const retrievalDocuments = embeddingsStored ? withStoredEmbeddings(documents) : documents;
+        const { system, prompt, retrievedChunks, rules, embeddedChunks } = await prepareDecisionPrompt(query, retrievalDocuments, { history, claimProfile });
+        // Newly computed embeddings are stored here, or sent back for the browser store to keep
+        if (embeddingsStored) saveChunkEmbeddings(embeddedChunks);
+        const modelInfo = getModelInfo();
+        send({
+          type: "retrieval",
+          retrievedChunks,
+          model: modelInfo,
+          rules,
+          embeddedChunks: embeddingsStored || embeddedChunks.length === 0 ? undefined : embeddedChunks,
+        });
+
+        const events = streamDecision({
+          model: getLanguageModel(modelInfo),
+          system,
+          prompt,
+          maxOutputTokens: 2000,
+        });
+        for await (const event of events) {
+          // The final decision is reviewed in code (citations, rules, amount) before it is sent
+          send(event.type === "final" ? { type: "final", ...reviewDecision(event.result, retrievalDocuments, rules) } : event);
+        }
+      } catch (error) {
+        console.error("Error processing document:", error);
+        send({
+          type: "error",
+          error: error instanceof InvalidDecisionError
+            ? "The model returned an invalid decision. Please try again."
+            : "Failed to process document. Please try again.",
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-cache" },
+  });
+}
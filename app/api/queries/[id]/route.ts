@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { deleteQueryResult, getQueryResult } from "@/lib/store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const query = getQueryResult(id);
+
+    if (!query) {
+      return NextResponse.json(
+        { error: "Query result not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ query });
+  } catch (error) {
+    console.error("Error loading query result:", error);
+    return NextResponse.json(
+      { error: "Failed to load query result." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!deleteQueryResult(id)) {
+      return NextResponse.json(
+        { error: "Query result not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error("Error deleting query result:", error);
+    return NextResponse.json(
+      { error: "Failed to delete query result." },
+      { status: 500 }
+    );
+  }
+}
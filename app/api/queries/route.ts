@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { clearQueryResults, listQueryResults, saveQueryResults, type QueryResult } from "@/lib/store";
+
+// ?workspaceId= limits listing and clearing to one workspace
+export async function GET(req: Request) {
+  try {
+    const workspaceId = new URL(req.url).searchParams.get("workspaceId") ?? undefined;
+    return NextResponse.json({ queries: listQueryResults(workspaceId) });
+  } catch (error) {
+    console.error("Error listing query results:", error);
+    return NextResponse.json(
+      { error: "Failed to load query history." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { queries } = (await req.json()) as { queries?: QueryResult[] };
+
+    if (!Array.isArray(queries) || queries.some((query) => !query?.id || !query.result)) {
+      return NextResponse.json(
+        { error: "Query results with an id and result are required" },
+        { status: 400 }
+      );
+    }
+
+    saveQueryResults(queries);
+
+    return NextResponse.json({ saved: queries.length }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving query results:", error);
+    return NextResponse.json(
+      { error: "Failed to save query history." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const workspaceId = new URL(req.url).searchParams.get("workspaceId") ?? undefined;
+    return NextResponse.json({ deleted: clearQueryResults(workspaceId) });
+  } catch (error) {
+    console.error("Error clearing query results:", error);
+    return NextResponse.json(
+      { error: "Failed to clear query history." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_WORKSPACE, deleteWorkspace, getWorkspace, saveWorkspace } from "@/lib/store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { name } = (await req.json()) as { name?: string };
+    const workspace = getWorkspace(id);
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: "Name is required" },
+        { status: 400 }
+      );
+    }
+
+    saveWorkspace({ ...workspace, name: name.trim() });
+
+    return NextResponse.json({ workspace: getWorkspace(id) });
+  } catch (error) {
+    console.error("Error renaming workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to rename workspace." },
+      { status: 500 }
+    );
+  }
+}
+
+// Deleting a workspace also deletes its documents and query history
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (id === DEFAULT_WORKSPACE.id) {
+      return NextResponse.json(
+        { error: "The default workspace can't be deleted" },
+        { status: 400 }
+      );
+    }
+    if (!deleteWorkspace(id)) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error("Error deleting workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to delete workspace." },
+      { status: 500 }
+    );
+  }
+}
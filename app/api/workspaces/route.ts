@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { listWorkspaces, saveWorkspace, type Workspace } from "@/lib/store";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ workspaces: listWorkspaces() });
+  } catch (error) {
+    console.error("Error listing workspaces:", error);
+    return NextResponse.json(
+      { error: "Failed to load workspaces." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { workspace } = (await req.json()) as { workspace?: Workspace };
+
+    if (!workspace?.id || !workspace.name?.trim()) {
+      return NextResponse.json(
+        { error: "A workspace with an id and name is required" },
+        { status: 400 }
+      );
+    }
+
+    const saved = { ...workspace, name: workspace.name.trim(), createdAt: workspace.createdAt || new Date().toISOString() };
+    saveWorkspace(saved);
+
+    return NextResponse.json({ workspace: saved }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to save workspace." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,43 @@
 'use client';
 
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { MessageSquare, User, Bot } from 'lucide-react';
+import { MessageSquare, User, Bot, Send, Loader2 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ProcessingResult } from '@/lib/decision';
 
-interface ChatMessage {
+export interface ChatMessage {
   type: 'user' | 'assistant';
   content: string;
-  result?: any;
+  result?: ProcessingResult;
 }
 
 interface ChatInterfaceProps {
   chatHistory: ChatMessage[];
+  // Shown while the latest decision still needs clarification
+  onReply?: (answer: string) => void;
+  isProcessing?: boolean;
+  placeholder?: string;
 }
 
-export default function ChatInterface({ chatHistory }: ChatInterfaceProps) {
+export default function ChatInterface({ chatHistory, onReply, isProcessing, placeholder }: ChatInterfaceProps) {
+  const [answer, setAnswer] = useState('');
+
+  const submit = () => {
+    if (!onReply || !answer.trim()) return;
+    onReply(answer.trim());
+    setAnswer('');
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <MessageSquare className="h-5 w-5" />
-          Query History
+          Clarification Thread
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -54,12 +70,12 @@ export default function ChatInterface({ chatHistory }: ChatInterfaceProps) {
                     className={`p-3 rounded-lg ${
                       message.type === 'user'
                         ? 'bg-blue-600 text-white'
-                        : 'bg-gray-100 text-gray-900'
+                        : 'bg-muted text-foreground'
                     }`}
                   >
                     <p className="text-sm">{message.content}</p>
                     {message.result && (
-                      <div className="mt-2 pt-2 border-t border-gray-300">
+                      <div className="mt-2 pt-2 border-t border-border">
                         <Badge
                           variant="secondary"
                           className="text-xs"
@@ -74,6 +90,22 @@ export default function ChatInterface({ chatHistory }: ChatInterfaceProps) {
             ))}
           </div>
         </ScrollArea>
+        {onReply && (
+          <div className="flex gap-2 mt-4">
+            <Input
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submit();
+              }}
+              placeholder={placeholder ?? 'Answer the follow-up question...'}
+              disabled={isProcessing}
+            />
+            <Button onClick={submit} disabled={isProcessing || !answer.trim()}>
+              {isProcessing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
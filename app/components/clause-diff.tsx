@@ -0,0 +1,86 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { StoredDocument } from '@/lib/store/types';
+import { diffClauses, diffWords, type ClauseChange } from '@/lib/versions';
+
+interface ClauseDiffProps {
+  older: StoredDocument;
+  newer: StoredDocument;
+}
+
+const CHANGE_STYLES: Record<ClauseChange, string> = {
+  added: 'bg-green-500/10 text-green-600 border-green-500/20',
+  removed: 'bg-red-500/10 text-red-600 border-red-500/20',
+  changed: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
+  unchanged: 'text-muted-foreground',
+};
+
+export default function ClauseDiff({ older, newer }: ClauseDiffProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const diffs = useMemo(() => diffClauses(older.clauses, newer.clauses), [older, newer]);
+
+  const counts = diffs.reduce<Record<ClauseChange, number>>(
+    (acc, diff) => ({ ...acc, [diff.change]: acc[diff.change] + 1 }),
+    { added: 0, removed: 0, changed: 0, unchanged: 0 }
+  );
+  const shown = showUnchanged ? diffs : diffs.filter((diff) => diff.change !== 'unchanged');
+
+  return (
+    <div className="border-b border-border">
+      <div className="flex items-center justify-between gap-4 px-4 py-2 bg-muted/30">
+        <div className="flex items-center gap-2 text-xs">
+          <span className="font-medium text-foreground">
+            v{older.version ?? 1} → v{newer.version ?? 1}
+          </span>
+          {(['changed', 'added', 'removed'] as ClauseChange[]).map((change) => (
+            <Badge key={change} variant="outline" className={CHANGE_STYLES[change]}>
+              {counts[change]} {change}
+            </Badge>
+          ))}
+          <span className="text-muted-foreground">{counts.unchanged} unchanged</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setShowUnchanged(!showUnchanged)}>
+          {showUnchanged ? 'Hide Unchanged' : 'Show Unchanged'}
+        </Button>
+      </div>
+
+      <ScrollArea className="h-80">
+        <div className="p-4 space-y-3">
+          {shown.length === 0 && (
+            <p className="text-sm text-muted-foreground">No clause differences between these versions.</p>
+          )}
+          {shown.map((diff, index) => (
+            <div key={index} className="p-3 border border-border rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                <Badge variant="outline" className={CHANGE_STYLES[diff.change]}>{diff.change}</Badge>
+                <span className="text-sm font-medium text-foreground">{diff.label}</span>
+              </div>
+              <p className="text-sm text-foreground whitespace-pre-wrap">
+                {diff.change === 'changed' && diff.before && diff.after
+                  ? diffWords(diff.before.text, diff.after.text).map((segment, segmentIndex) => (
+                      <span
+                        key={segmentIndex}
+                        className={
+                          segment.type === 'added'
+                            ? 'bg-green-500/20 text-green-700 dark:text-green-300'
+                            : segment.type === 'removed'
+                              ? 'bg-red-500/20 text-red-700 dark:text-red-300 line-through'
+                              : undefined
+                        }
+                      >
+                        {segment.text}{' '}
+                      </span>
+                    ))
+                  : (diff.after ?? diff.before)?.text}
+              </p>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
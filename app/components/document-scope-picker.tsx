@@ -0,0 +1,115 @@
+'use client';
+
+import { FileText, Mail, Tag } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { documentTags, resolveDocumentScope } from '@/lib/store/scope';
+import { documentVersions } from '@/lib/versions';
+import type { DocumentScope, StoredDocument } from '@/lib/store/types';
+
+interface DocumentScopePickerProps {
+  documents: StoredDocument[];
+  // Null runs the query against every document
+  scope: DocumentScope | null;
+  onChange: (scope: DocumentScope | null) => void;
+  disabled?: boolean;
+}
+
+export default function DocumentScopePicker({ documents, scope, onChange, disabled }: DocumentScopePickerProps) {
+  const tags = documentTags(documents);
+  const selected = new Set(resolveDocumentScope(documents, scope).map((doc) => doc.id));
+  // Attachments follow their email and older versions follow the latest, so only those are picked directly
+  const pickable = documents.filter((doc) => {
+    if (doc.parentId) return false;
+    const versions = documentVersions(documents, doc);
+    return versions[versions.length - 1].id === doc.id;
+  });
+  const versionCounts = new Map(pickable.map((doc) => [doc.id, documentVersions(documents, doc).length]));
+
+  const toggleDocument = (id: string) => {
+    const current = scope ?? { documentIds: [], tags: [] };
+    onChange({
+      ...current,
+      documentIds: current.documentIds.includes(id)
+        ? current.documentIds.filter((documentId) => documentId !== id)
+        : [...current.documentIds, id],
+    });
+  };
+
+  const toggleTag = (tag: string) => {
+    const current = scope ?? { documentIds: [], tags: [] };
+    onChange({
+      ...current,
+      tags: current.tags.includes(tag) ? current.tags.filter((t) => t !== tag) : [...current.tags, tag],
+    });
+  };
+
+  return (
+    <div className="p-4 border border-border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-foreground">Documents to Search</h4>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {scope ? `${selected.size} of ${documents.length} selected` : `All ${documents.length} documents`}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onChange(scope ? null : { documentIds: [], tags: [] })}
+          >
+            {scope ? 'Use All' : 'Choose'}
+          </Button>
+        </div>
+      </div>
+
+      {scope && (
+        <>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Tag className="h-3 w-3 text-muted-foreground" />
+              {tags.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant={scope.tags.includes(tag) ? 'default' : 'outline'}
+                  className={disabled ? 'opacity-50' : 'cursor-pointer'}
+                  onClick={() => !disabled && toggleTag(tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+          <div className="max-h-48 overflow-y-auto space-y-2">
+            {pickable.map((doc) => (
+              <label key={doc.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                {/* Documents selected through a tag stay selected until the tag is deselected */}
+                <Checkbox
+                  checked={selected.has(doc.id)}
+                  disabled={disabled || (selected.has(doc.id) && !scope.documentIds.includes(doc.id))}
+                  onCheckedChange={() => toggleDocument(doc.id)}
+                />
+                {doc.metadata?.email ? (
+                  <Mail className="h-4 w-4 text-green-500" />
+                ) : (
+                  <FileText className="h-4 w-4 text-red-500" />
+                )}
+                <span className="text-foreground truncate">{doc.name}</span>
+                {(versionCounts.get(doc.id) ?? 1) > 1 && (
+                  <span className="text-xs text-muted-foreground">{versionCounts.get(doc.id)} versions</span>
+                )}
+                {doc.attachmentIds && doc.attachmentIds.length > 0 && (
+                  <span className="text-xs text-muted-foreground">+{doc.attachmentIds.length} attachment(s)</span>
+                )}
+              </label>
+            ))}
+          </div>
+          {selected.size === 0 && (
+            <p className="text-xs text-amber-600">Select at least one document or tag.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -57,13 +57,13 @@ export default function DocumentUpload({ onUpload, uploadedDocuments, onRemove }
           Drag and drop files here, or click to select
         </p>
         <p className="text-xs text-gray-400">
-          Supports PDF, DOC, DOCX, TXT files
+          Supports PDF, DOCX, TXT files
         </p>
         <input
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".pdf,.doc,.docx,.txt"
+          accept=".pdf,.docx,.txt"
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -0,0 +1,48 @@
+'use client';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { DuplicateAction, DuplicateMatch } from '@/lib/duplicates';
+import type { StoredDocument } from '@/lib/store/types';
+
+interface DuplicateDialogProps {
+  // The upload waiting on a decision, or null when nothing is pending
+  upload: StoredDocument | null;
+  match: DuplicateMatch | null;
+  onResolve: (action: DuplicateAction) => void;
+}
+
+export default function DuplicateDialog({ upload, match, onResolve }: DuplicateDialogProps) {
+  return (
+    <AlertDialog open={!!upload && !!match} onOpenChange={(open) => !open && onResolve('skip')}>
+      {upload && match && (
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{match.exact ? 'Duplicate document' : 'Similar document found'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {match.exact
+                ? `${upload.name} has the same content as ${match.document.name}`
+                : `${upload.name} shares ${Math.round(match.similarity * 100)}% of its wording with ${match.document.name}`}
+              {` (v${match.document.version ?? 1}, uploaded ${new Date(match.document.uploadDate).toLocaleDateString()}). `}
+              Storing both would search the same clauses twice.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            {/* Cancel and Escape both close the dialog, which skips the upload */}
+            <AlertDialogCancel>Skip</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onResolve('replace')}>Replace</AlertDialogAction>
+            <AlertDialogAction onClick={() => onResolve('version')}>Keep as New Version</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      )}
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { Calculator } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { calculatePayout, formatAmount, formatCurrency, parseAmount, type ParsedAmount, type PayoutInput } from '@/lib/amount';
+import type { RulesEvaluation } from '@/lib/rules';
+
+interface PayoutCalculatorProps {
+  // The decision's Amount, normalized by the server
+  amount?: ParsedAmount | null;
+  rules?: RulesEvaluation;
+}
+
+// Amount fields accept the same free-form text as the model's Amount ("2 lakh", "₹50,000")
+function parseField(text: string) {
+  return text.trim() ? parseAmount(text)?.value : undefined;
+}
+
+export default function PayoutCalculator({ amount, rules }: PayoutCalculatorProps) {
+  const applying = rules?.outcomes.filter(outcome => outcome.status === 'applies') ?? [];
+  const coPayRule = applying.find(outcome => outcome.rule === 'co_pay');
+  const roomRentRule = applying.find(outcome => outcome.rule === 'room_rent');
+
+  const [claimed, setClaimed] = useState('');
+  const [sumInsured, setSumInsured] = useState('');
+  const [deductible, setDeductible] = useState('');
+  const [coPay, setCoPay] = useState(coPayRule?.value?.toString() ?? '');
+  const [roomCharged, setRoomCharged] = useState('');
+  const [roomDays, setRoomDays] = useState('');
+
+  const claimedValue = parseField(claimed);
+  const sumInsuredValue = parseField(sumInsured);
+  const currency = amount?.currency ?? 'INR';
+
+  // A percentage cap needs the sum insured before it can be applied
+  const roomRentCap = roomRentRule?.value === undefined
+    ? undefined
+    : roomRentRule.unit === 'percent'
+      ? sumInsuredValue !== undefined ? (sumInsuredValue * roomRentRule.value) / 100 : undefined
+      : roomRentRule.value;
+
+  const input: PayoutInput | null = claimedValue === undefined ? null : {
+    claimed: claimedValue,
+    currency,
+    sumInsured: sumInsuredValue,
+    deductible: parseField(deductible),
+    coPayPercent: coPay ? Number(coPay) : undefined,
+    subLimits: amount && amount.basis !== 'per_day' && amount.basis !== 'exact'
+      ? [{ label: 'Limit in decision', value: amount.value }]
+      : [],
+    roomRent: roomRentCap !== undefined && parseField(roomCharged) !== undefined && Number(roomDays) > 0
+      ? { chargedPerDay: parseField(roomCharged)!, days: Number(roomDays), capPerDay: roomRentCap }
+      : undefined,
+  };
+  const calculation = input && calculatePayout(input);
+
+  return (
+    <div className="p-4 border border-border rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-foreground flex items-center gap-2">
+          <Calculator className="h-4 w-4" />
+          Payout Calculator
+        </h4>
+        {amount && (
+          <span className="text-xs text-muted-foreground">Decision amount: {formatAmount(amount)}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Claimed amount</label>
+          <Input placeholder="e.g. 3 lakh" value={claimed} onChange={(e) => setClaimed(e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Sum insured</label>
+          <Input placeholder="e.g. ₹5,00,000" value={sumInsured} onChange={(e) => setSumInsured(e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Deductible</label>
+          <Input placeholder="0" value={deductible} onChange={(e) => setDeductible(e.target.value)} />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Co-pay (%)</label>
+          <Input type="number" min={0} max={100} value={coPay} onChange={(e) => setCoPay(e.target.value)} />
+        </div>
+        {roomRentRule && (
+          <>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Room rent charged per day</label>
+              <Input value={roomCharged} onChange={(e) => setRoomCharged(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Days in room</label>
+              <Input type="number" min={0} value={roomDays} onChange={(e) => setRoomDays(e.target.value)} />
+            </div>
+          </>
+        )}
+      </div>
+
+      {roomRentRule && roomRentCap === undefined && (
+        <p className="text-xs text-muted-foreground">Enter the sum insured to apply the {roomRentRule.value}% room rent cap.</p>
+      )}
+
+      {calculation ? (
+        <div className="space-y-2">
+          {calculation.steps.map((step, index) => (
+            <div key={index} className="flex items-start justify-between gap-4 text-sm p-2 bg-muted rounded">
+              <div>
+                <p className="font-medium text-foreground">{step.label}</p>
+                <p className="text-xs text-muted-foreground">{step.detail}</p>
+              </div>
+              <span className="font-mono text-foreground whitespace-nowrap">{formatCurrency(step.value, currency)}</span>
+            </div>
+          ))}
+          <div className="flex items-center justify-between p-2 border-t border-border">
+            <span className="text-sm font-medium text-foreground">Payable</span>
+            <span className="text-lg font-bold text-primary">{formatCurrency(calculation.payable, currency)}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Enter the claimed amount to see the payout worked out step by step.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Document, Page, Thumbnail, pdfjs } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, Loader2, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import 'react-pdf/dist/Page/TextLayer.css';
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+export type PdfHighlightKind = 'citation' | 'chunk';
+
+export interface PdfHighlight {
+  id: string;
+  kind: PdfHighlightKind;
+  // Passage text as extracted at ingestion; matched against the page's text layer
+  text: string;
+  page?: number;
+}
+
+interface PdfViewerProps {
+  // Base64 of the original PDF
+  data: string;
+  highlights: PdfHighlight[];
+  // Highlight to jump to and scroll into view
+  focusId?: string;
+}
+
+type MarkKind = PdfHighlightKind | 'search' | 'focus';
+
+interface ItemRange {
+  start: number;
+  end: number;
+  kind: MarkKind;
+}
+
+// A page's text with whitespace removed, and where each character came from in the text layer items
+interface PageIndex {
+  text: string;
+  positions: Array<[item: number, char: number]>;
+}
+
+const MARK_CLASSES: Record<MarkKind, string> = {
+  chunk: 'bg-blue-400/30',
+  citation: 'bg-yellow-300/60',
+  search: 'bg-orange-400/50',
+  focus: 'bg-yellow-400/80 ring-2 ring-yellow-500',
+};
+
+// Later kinds win where highlights overlap
+const MARK_PRIORITY: MarkKind[] = ['chunk', 'citation', 'search', 'focus'];
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Text extraction and the text layer break lines and spaces differently, so matching ignores whitespace
+function compact(text: string) {
+  return text.replace(/\s+/g, '').toLowerCase();
+}
+
+function buildPageIndex(items: string[]): PageIndex {
+  let text = '';
+  const positions: PageIndex['positions'] = [];
+  items.forEach((item, itemIndex) => {
+    for (let char = 0; char < item.length; char++) {
+      if (/\s/.test(item[char])) continue;
+      text += item[char].toLowerCase();
+      positions.push([itemIndex, char]);
+    }
+  });
+  return { text, positions };
+}
+
+function findAll(index: PageIndex, needle: string) {
+  const matches: number[] = [];
+  if (!needle) return matches;
+  let from = index.text.indexOf(needle);
+  while (from !== -1) {
+    matches.push(from);
+    from = index.text.indexOf(needle, from + needle.length);
+  }
+  return matches;
+}
+
+// Converts a match in the compacted page text to per-item character ranges
+function addRanges(ranges: Map<number, ItemRange[]>, index: PageIndex, start: number, length: number, kind: MarkKind) {
+  for (let position = start; position < start + length; position++) {
+    const [item, char] = index.positions[position];
+    const itemRanges = ranges.get(item) ?? [];
+    const last = itemRanges[itemRanges.length - 1];
+    if (last && last.kind === kind && last.end === char) {
+      last.end = char + 1;
+    } else {
+      itemRanges.push({ start: char, end: char + 1, kind });
+    }
+    ranges.set(item, itemRanges);
+  }
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function renderItem(str: string, ranges: ItemRange[] | undefined, focusId: string | undefined) {
+  if (!ranges || ranges.length === 0) return escapeHtml(str);
+
+  // Resolve overlaps character by character, keeping the highest-priority kind
+  const kinds: Array<MarkKind | null> = new Array(str.length).fill(null);
+  for (const range of ranges) {
+    for (let char = range.start; char < range.end; char++) {
+      const current = kinds[char];
+      if (!current || MARK_PRIORITY.indexOf(range.kind) > MARK_PRIORITY.indexOf(current)) kinds[char] = range.kind;
+    }
+  }
+
+  let html = '';
+  let char = 0;
+  while (char < str.length) {
+    const kind = kinds[char];
+    let end = char + 1;
+    while (end < str.length && kinds[end] === kind) end++;
+    const segment = escapeHtml(str.slice(char, end));
+    html += kind
+      ? `<mark class="${MARK_CLASSES[kind]} text-transparent rounded-sm"${kind === 'focus' && focusId ? ' data-pdf-focus="true"' : ''}>${segment}</mark>`
+      : segment;
+    char = end;
+  }
+  return html;
+}
+
+/**
+ * Renders the original PDF with page thumbnails, zoom and text search.
+ * Retrieved chunks and cited clauses are overlaid on the text layer by
+ * matching their extracted text against each page's text.
+ */
+export default function PdfViewer({ data, highlights, focusId }: PdfViewerProps) {
+  const [numPages, setNumPages] = useState(0);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1);
+  const [pageItems, setPageItems] = useState<string[][]>([]);
+  const [searchText, setSearchText] = useState('');
+  const [searchIndex, setSearchIndex] = useState(0);
+
+  // pdf.js takes ownership of the buffer it is given, so each load gets a fresh copy
+  const file = useMemo(() => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index);
+    return { data: bytes };
+  }, [data]);
+
+  const onLoadSuccess = useCallback(async (pdf: PDFDocumentProxy) => {
+    setNumPages(pdf.numPages);
+    setPageNumber(1);
+    const items: string[][] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      items.push(content.items.map((item) => ('str' in item ? item.str : '')));
+    }
+    setPageItems(items);
+  }, []);
+
+  const pageIndexes = useMemo(() => pageItems.map(buildPageIndex), [pageItems]);
+
+  // Where each highlight was found; a highlight without a page is searched on every page
+  const located = useMemo(() => {
+    return highlights.flatMap((highlight) => {
+      const needle = compact(highlight.text);
+      const pages = highlight.page ? [highlight.page] : pageIndexes.map((_, index) => index + 1);
+      for (const page of pages) {
+        const index = pageIndexes[page - 1];
+        if (!index) continue;
+        let start = index.text.indexOf(needle);
+        let length = needle.length;
+        // Long passages can differ in a few characters; fall back to their opening words
+        if (start === -1 && needle.length > 80) {
+          start = index.text.indexOf(needle.slice(0, 80));
+          length = 80;
+        }
+        if (start !== -1) return [{ highlight, page, start, length }];
+      }
+      return [];
+    });
+  }, [highlights, pageIndexes]);
+
+  const searchMatches = useMemo(() => {
+    const needle = compact(searchText);
+    if (needle.length < 2) return [];
+    return pageIndexes.flatMap((index, pageIndex) =>
+      findAll(index, needle).map((start) => ({ page: pageIndex + 1, start, length: needle.length }))
+    );
+  }, [searchText, pageIndexes]);
+
+  const activeMatch = searchMatches[searchIndex];
+
+  useEffect(() => {
+    setSearchIndex(0);
+  }, [searchText]);
+
+  useEffect(() => {
+    if (activeMatch) setPageNumber(activeMatch.page);
+  }, [activeMatch]);
+
+  const focusedPage = located.find((entry) => entry.highlight.id === focusId)?.page;
+  // focusId re-runs this when a new highlight is focused on the page already shown
+  useEffect(() => {
+    if (focusedPage) setPageNumber(focusedPage);
+  }, [focusedPage, focusId]);
+
+  const itemRanges = useMemo(() => {
+    const ranges = new Map<number, ItemRange[]>();
+    const index = pageIndexes[pageNumber - 1];
+    if (!index) return ranges;
+
+    for (const entry of located) {
+      if (entry.page !== pageNumber) continue;
+      const kind = entry.highlight.id === focusId ? 'focus' : entry.highlight.kind;
+      addRanges(ranges, index, entry.start, entry.length, kind);
+    }
+    for (const match of searchMatches) {
+      if (match.page !== pageNumber) continue;
+      addRanges(ranges, index, match.start, match.length, match === activeMatch ? 'focus' : 'search');
+    }
+    return ranges;
+  }, [pageIndexes, pageNumber, located, searchMatches, activeMatch, focusId]);
+
+  const customTextRenderer = useCallback(
+    ({ str, itemIndex }: { str: string; itemIndex: number }) => renderItem(str, itemRanges.get(itemIndex), focusId),
+    [itemRanges, focusId]
+  );
+
+  const scrollToFocus = () => {
+    document.querySelector('[data-pdf-focus="true"]')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  };
+
+  const highlightPages = new Set(located.map((entry) => entry.page));
+  const zoomIndex = ZOOM_LEVELS.indexOf(scale);
+
+  return (
+    <Document
+      file={file}
+      onLoadSuccess={onLoadSuccess}
+      loading={
+        <div className="flex items-center justify-center h-96 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading PDF...
+        </div>
+      }
+      error={<p className="p-6 text-sm text-red-500">The PDF could not be rendered.</p>}
+    >
+      <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-border">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={pageNumber <= 1} onClick={() => setPageNumber(pageNumber - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            Page {pageNumber} of {numPages || '…'}
+          </span>
+          <Button variant="outline" size="sm" disabled={pageNumber >= numPages} onClick={() => setPageNumber(pageNumber + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={zoomIndex <= 0} onClick={() => setScale(ZOOM_LEVELS[zoomIndex - 1])}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="text-xs text-muted-foreground w-10 text-center">{Math.round(scale * 100)}%</span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={zoomIndex >= ZOOM_LEVELS.length - 1}
+            onClick={() => setScale(ZOOM_LEVELS[zoomIndex + 1])}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search in document"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && searchMatches.length > 0) setSearchIndex((searchIndex + 1) % searchMatches.length);
+              }}
+              className="pl-8 h-8 w-48"
+            />
+          </div>
+          {searchText && (
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {searchMatches.length > 0 ? `${searchIndex + 1} / ${searchMatches.length}` : 'No matches'}
+            </span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={searchMatches.length === 0}
+            onClick={() => setSearchIndex((searchIndex - 1 + searchMatches.length) % searchMatches.length)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={searchMatches.length === 0}
+            onClick={() => setSearchIndex((searchIndex + 1) % searchMatches.length)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex">
+        <ScrollArea className="h-[36rem] w-36 border-r border-border">
+          <div className="p-2 space-y-2">
+            {Array.from({ length: numPages }, (_, index) => index + 1).map((number) => (
+              <div
+                key={number}
+                className={`relative rounded border cursor-pointer overflow-hidden ${
+                  number === pageNumber ? 'border-primary ring-1 ring-primary' : 'border-border'
+                }`}
+              >
+                <Thumbnail pageNumber={number} width={112} onItemClick={() => setPageNumber(number)} />
+                <span className="absolute bottom-1 left-1 text-[10px] bg-background/80 px-1 rounded">{number}</span>
+                {highlightPages.has(number) && (
+                  <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-yellow-400" title="Contains highlights" />
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <ScrollArea className="h-[36rem] flex-1">
+          <div className="flex justify-center p-4">
+            <Page
+              pageNumber={pageNumber}
+              scale={scale}
+              customTextRenderer={customTextRenderer}
+              onRenderTextLayerSuccess={scrollToFocus}
+              renderAnnotationLayer={false}
+              className="shadow-md"
+            />
+          </div>
+        </ScrollArea>
+      </div>
+
+      <div className="flex items-center gap-4 px-4 py-2 border-t border-border text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-400/30" /> Retrieved chunk</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-yellow-300/60" /> Cited clause</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-orange-400/50" /> Search match</span>
+      </div>
+    </Document>
+  );
+}
@@ -3,21 +3,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { CheckCircle, XCircle, AlertCircle, FileText, TrendingUp } from 'lucide-react';
-
-interface ProcessingResult {
-  Decision: string;
-  Amount?: string;
-  Justification: string;
-  Clause_References: Array<{
-    Document: string;
-    Clause_Snippet: string;
-    Page: string;
-    Matched_Concept: string;
-  }>;
-  Confidence: number;
-  Missing?: string[];
-  Suggested_Follow_up?: string;
-}
+import type { ProcessingResult } from '@/lib/decision';
 
 interface ResultsDisplayProps {
   result: ProcessingResult;
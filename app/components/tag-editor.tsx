@@ -0,0 +1,55 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export default function TagEditor({ tags, onChange }: TagEditorProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [tag, setTag] = useState('');
+
+  const add = () => {
+    const value = tag.trim();
+    if (value && !tags.includes(value)) onChange([...tags, value]);
+    setTag('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map((existing) => (
+        <Badge key={existing} variant="secondary" className="text-xs gap-1">
+          {existing}
+          <button onClick={() => onChange(tags.filter((t) => t !== existing))} title="Remove tag">
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      {isAdding ? (
+        <Input
+          autoFocus
+          value={tag}
+          placeholder="Tag"
+          onChange={(e) => setTag(e.target.value)}
+          onBlur={add}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') add();
+            if (e.key === 'Escape') setIsAdding(false);
+          }}
+          className="h-6 w-28 text-xs"
+        />
+      ) : (
+        <Badge variant="outline" className="text-xs cursor-pointer" onClick={() => setIsAdding(true)}>
+          <Plus className="h-3 w-3 mr-1" />
+          Tag
+        </Badge>
+      )}
+    </div>
+  );
+}
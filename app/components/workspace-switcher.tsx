@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, FolderOpen, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_WORKSPACE } from '@/lib/store/defaults';
+import type { Workspace } from '@/lib/store/types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+export default function WorkspaceSwitcher({ workspaces, activeId, onSelect, onCreate, onDelete, disabled }: WorkspaceSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onCreate(name.trim());
+    setName('');
+    setIsCreating(false);
+  };
+
+  if (isCreating) {
+    return (
+      <div className="flex items-center gap-1">
+        <Input
+          autoFocus
+          placeholder="Claim or customer name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submit();
+            if (e.key === 'Escape') setIsCreating(false);
+          }}
+          className="h-8 w-48"
+        />
+        <Button variant="ghost" size="icon" onClick={submit} disabled={!name.trim()} title="Create workspace">
+          <Check className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => setIsCreating(false)} title="Cancel">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <FolderOpen className="h-4 w-4 text-muted-foreground" />
+      <Select value={activeId ?? undefined} onValueChange={onSelect} disabled={disabled || workspaces.length === 0}>
+        <SelectTrigger className="h-8 w-48">
+          <SelectValue placeholder="Workspace" />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="icon" onClick={() => setIsCreating(true)} disabled={disabled} title="New workspace">
+        <Plus className="h-4 w-4" />
+      </Button>
+      {activeId && activeId !== DEFAULT_WORKSPACE.id && (
+        <Button variant="ghost" size="icon" onClick={() => onDelete(activeId)} disabled={disabled} title="Delete workspace">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
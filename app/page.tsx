@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import dynamic from 'next/dynamic';
 import { Moon, Sun, Upload, Search, BarChart3, Eye, History, FileText, Database, Mail, HardDrive, X, Check, Loader2, AlertCircle, CheckCircle, XCircle, Clock, Trash2, Download, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useTheme } from 'next-themes';
@@ -10,41 +11,88 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { SegmentedDocument } from '@/lib/ingestion/types';
+import { segmentDocument } from '@/lib/segmentation';
+import type { ChunkEmbedding, RetrievalDocument, RetrievedChunk } from '@/lib/retrieval';
+import type { ModelInfo } from '@/lib/llm/provider';
+import type { RuleStatus, RulesEvaluation } from '@/lib/rules';
+import type { PartialProcessingResult, ProcessingResult } from '@/lib/decision';
+import { formatAmount } from '@/lib/amount';
+import type { CitationStatus } from '@/lib/citations';
+import type { DecisionReview } from '@/lib/review';
+import type { DocumentScope, DocumentVersionUsed, QueryResult, StoredDocument, Workspace } from '@/lib/store/types';
+import { resolveDocumentScope } from '@/lib/store/scope';
+import { DEFAULT_WORKSPACE } from '@/lib/store/defaults';
+import { getDocumentStore, type StorageUsage } from '@/lib/store/client';
+import { formatClaimProfile, type ClaimProfile } from '@/lib/claim-profile';
+import { today } from '@/lib/dates';
+import { findDuplicate, type DuplicateAction, type DuplicateMatch } from '@/lib/duplicates';
+import {
+  detectEffectiveDate,
+  documentVersions,
+  findPreviousVersion,
+  nextVersion,
+  selectVersionsInForce,
+  versionGroupOf,
+  versionInForce,
+} from '@/lib/versions';
+import ChatInterface, { type ChatMessage } from './components/chat-interface';
+import PayoutCalculator from './components/payout-calculator';
+import WorkspaceSwitcher from './components/workspace-switcher';
+import DocumentScopePicker from './components/document-scope-picker';
+import TagEditor from './components/tag-editor';
+import ClauseDiff from './components/clause-diff';
+import DuplicateDialog from './components/duplicate-dialog';
+import type { PdfHighlight } from './components/pdf-viewer';
+
+// pdf.js needs browser APIs, so the page-rendered viewer is only loaded on the client
+const PdfViewer = dynamic(() => import('./components/pdf-viewer'), { ssr: false });
 
 type Tab = 'upload' | 'query' | 'results' | 'viewer' | 'history';
 
-interface StoredDocument {
-  id: string;
-  name: string;
-  content: string;
-  chunks: number;
-  clauses: number;
-  size: string;
-  processTime: string;
-  status: 'stored' | 'processing';
-  uploadDate: string;
-  type: string;
+// OCR pages below this confidence are flagged in the Viewer for manual review
+const LOW_OCR_CONFIDENCE = 0.6;
+
+// Browser storage usage above this share of the quota is flagged before writes start failing
+const STORAGE_WARNING_RATIO = 0.8;
+
+const store = getDocumentStore();
+
+// Original PDFs up to this size are kept for the page-rendered viewer; larger ones show extracted text
+const MAX_STORED_PDF_BYTES = 2 * 1024 * 1024;
+
+interface HistoryFilter {
+  procedure: string;
+  provider: string;
+  location: string;
+  gender: string;
+  // Inclusive bounds kept as typed; empty means unbounded
+  minAge: string;
+  maxAge: string;
+  minDurationMonths: string;
+  maxDurationMonths: string;
 }
 
-interface QueryResult {
-  id: string;
+const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  procedure: '',
+  provider: '',
+  location: '',
+  gender: 'any',
+  minAge: '',
+  maxAge: '',
+  minDurationMonths: '',
+  maxDurationMonths: '',
+};
+
+// A query whose decision is still being streamed from the model
+interface StreamingQuery {
   query: string;
-  timestamp: string;
-  result: {
-    Decision: string;
-    Amount?: string;
-    Justification: string;
-    Clause_References: Array<{
-      Document: string;
-      Clause_Snippet: string;
-      Page: string;
-      Matched_Concept: string;
-    }>;
-    Confidence: number;
-    Missing?: string[];
-    Suggested_Follow_up?: string;
-  };
-  processingTime: number;
+  stage: 'retrieving' | 'reasoning';
+  result: PartialProcessingResult;
+  retrievedChunks?: RetrievedChunk[];
+  model?: ModelInfo;
+  rules?: RulesEvaluation;
 }
 
 export default function LLMSystem() {
@@ -53,49 +101,228 @@ export default function LLMSystem() {
   const { toast } = useToast();
   
   // State management
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  // Documents and history below belong to this workspace; null until workspaces have loaded
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
   const [storedDocuments, setStoredDocuments] = useState<StoredDocument[]>([]);
   const [queryHistory, setQueryHistory] = useState<QueryResult[]>([]);
   const [currentQuery, setCurrentQuery] = useState('');
+  // Parsed from currentQuery and edited on the Query tab before submission
+  const [claimProfile, setClaimProfile] = useState<ClaimProfile | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  // Documents the next query runs against; null for all of the workspace's documents
+  const [documentScope, setDocumentScope] = useState<DocumentScope | null>(null);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedDocument, setSelectedDocument] = useState<StoredDocument | null>(null);
   const [currentResult, setCurrentResult] = useState<QueryResult | null>(null);
+  const [streamingQuery, setStreamingQuery] = useState<StreamingQuery | null>(null);
   const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({});
+  // The citation of currentResult being shown in the Viewer, by Clause_References index
+  const [citationIndex, setCitationIndex] = useState<number | null>(null);
+  const [viewerMode, setViewerMode] = useState<'pages' | 'text'>('pages');
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{
+    upload: StoredDocument;
+    match: DuplicateMatch;
+    resolve: (action: DuplicateAction) => void;
+  } | null>(null);
+  // Another version of selectedDocument whose clauses are diffed against it in the Viewer
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+
+  // Load workspaces, moving anything left in localStorage into the store (and so the default workspace)
+  useEffect(() => {
+    const load = async () => {
+      const savedDocuments = localStorage.getItem('llm-documents');
+      const savedHistory = localStorage.getItem('llm-history');
+
+      if (savedDocuments) {
+        // Documents stored before segmentation existed only kept chunk/clause counts
+        await store.createDocuments(JSON.parse(savedDocuments).map((doc: StoredDocument) =>
+          Array.isArray(doc.chunks)
+            ? doc
+            : { ...doc, pages: doc.pages || [], ...segmentDocument(doc.id, doc.content, doc.pages) }
+        ));
+        localStorage.removeItem('llm-documents');
+      }
+      if (savedHistory) {
+        await store.createQueryResults(JSON.parse(savedHistory));
+        localStorage.removeItem('llm-history');
+      }
 
-  // Load data from localStorage on mount
+      const list = await store.fetchWorkspaces();
+      const savedWorkspaceId = localStorage.getItem('llm-active-workspace');
+      setWorkspaces(list);
+      setActiveWorkspaceId(list.some(w => w.id === savedWorkspaceId) ? savedWorkspaceId : DEFAULT_WORKSPACE.id);
+    };
+
+    load().catch((error) => {
+      toast({
+        title: "Failed to load stored data",
+        description: error instanceof Error ? error.message : "The document store is unavailable",
+        variant: "destructive",
+      });
+    });
+  }, [toast]);
+
+  // Load the active workspace's documents and history, leaving anything open from the previous one
   useEffect(() => {
-    const savedDocuments = localStorage.getItem('llm-documents');
-    const savedHistory = localStorage.getItem('llm-history');
-    
-    if (savedDocuments) {
-      setStoredDocuments(JSON.parse(savedDocuments));
-    }
-    if (savedHistory) {
-      setQueryHistory(JSON.parse(savedHistory));
+    if (!activeWorkspaceId) return;
+    localStorage.setItem('llm-active-workspace', activeWorkspaceId);
+    setCurrentResult(null);
+    setSelectedDocument(null);
+    setDocumentScope(null);
+    setStoredDocuments([]);
+    setQueryHistory([]);
+
+    let cancelled = false;
+    Promise.all([store.fetchDocuments(activeWorkspaceId), store.fetchQueryResults(activeWorkspaceId)])
+      .then(([documents, history]) => {
+        if (cancelled) return;
+        setStoredDocuments(documents);
+        setQueryHistory(history);
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to load workspace",
+          description: error instanceof Error ? error.message : "The document store is unavailable",
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeWorkspaceId, toast]);
+
+  // Re-measure storage whenever stored data changes
+  useEffect(() => {
+    store.estimateUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  }, [storedDocuments, queryHistory]);
+
+  const storageRatio = storageUsage ? storageUsage.usage / storageUsage.quota : 0;
+  const storageNearlyFull = storageRatio >= STORAGE_WARNING_RATIO;
+
+  useEffect(() => {
+    if (storageNearlyFull) {
+      toast({
+        title: "Browser storage almost full",
+        description: "Remove documents or history before uploading more, or new data may not be saved.",
+        variant: "destructive",
+      });
     }
-  }, []);
+  }, [storageNearlyFull, toast]);
+
+  // Citation navigation belongs to the result it was opened from
+  useEffect(() => {
+    setCitationIndex(null);
+  }, [currentResult]);
 
-  // Save data to localStorage whenever state changes
   useEffect(() => {
-    localStorage.setItem('llm-documents', JSON.stringify(storedDocuments));
-  }, [storedDocuments]);
+    setCompareVersionId(null);
+  }, [selectedDocument?.id]);
 
+  // Bring the highlighted citation into view once the Viewer has rendered it
   useEffect(() => {
-    localStorage.setItem('llm-history', JSON.stringify(queryHistory));
-  }, [queryHistory]);
+    if (activeTab === 'viewer' && citationIndex !== null) {
+      document.getElementById('citation-highlight')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [activeTab, citationIndex, selectedDocument]);
+
+  // Text extraction runs server-side so binary formats are parsed rather than read as text
+  const extractTextFromFile = async (file: File, id: string): Promise<SegmentedDocument> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('id', id);
+
+    const response = await fetch('/api/ingest', {
+      method: 'POST',
+      body: formData,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to extract ${file.name}`);
+    }
+    return data;
+  };
 
-  const extractTextFromFile = async (file: File): Promise<string> => {
-    return new Promise((resolve) => {
+  const toRetrievalDocument = (doc: StoredDocument): RetrievalDocument => ({
+    id: doc.id,
+    name: doc.name,
+    parentName: storedDocuments.find(d => d.id === doc.parentId)?.name,
+    policyNumber: doc.metadata?.policyNumber,
+    // The server store already holds the embeddings, so only browser-stored documents send them
+    chunks: store.mode === 'server' ? doc.chunks.map(({ embedding: _embedding, ...chunk }) => chunk) : doc.chunks,
+  });
+
+  // Saves embeddings the server computed for browser-stored chunks, so they aren't recomputed every query
+  const keepChunkEmbeddings = (embeddings: ChunkEmbedding[]) => {
+    const byChunk = new Map(embeddings.map(e => [`${e.documentId}/${e.chunkId}`, e.embedding]));
+    const updated = storedDocuments
+      .filter(doc => embeddings.some(e => e.documentId === doc.id))
+      .map(doc => ({
+        ...doc,
+        chunks: doc.chunks.map(chunk => ({ ...chunk, embedding: byChunk.get(`${doc.id}/${chunk.id}`) ?? chunk.embedding })),
+      }));
+    setStoredDocuments(prev => prev.map(doc => updated.find(u => u.id === doc.id) ?? doc));
+    Promise.all(updated.map(doc => store.updateDocument(doc))).catch(() => {
+      toast({
+        title: "Embeddings not saved",
+        description: "They will be computed again for the next query",
+        variant: "destructive",
+      });
+    });
+  };
+
+  // Flattens an extracted document and its (possibly nested) attachments into linked records
+  const readAsBase64 = (file: File) =>
+    new Promise<string>((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        // Simple text extraction - in a real app, you'd use proper PDF/DOCX parsers
-        resolve(content || `[${file.type}] ${file.name} - Content extracted`);
-      };
-      reader.readAsText(file);
+      reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
     });
+
+  const toStoredDocuments = (
+    extracted: SegmentedDocument,
+    file: { name: string; size: number; type: string; processTime: string; parentId?: string; pdfData?: string }
+  ): StoredDocument[] => {
+    const attachments = (extracted.attachments || []).flatMap((attachment) =>
+      toStoredDocuments(attachment, {
+        name: attachment.name,
+        size: attachment.size,
+        type: attachment.type,
+        processTime: file.processTime,
+        parentId: extracted.id,
+      })
+    );
+    const document: StoredDocument = {
+      id: extracted.id,
+      workspaceId: activeWorkspaceId ?? DEFAULT_WORKSPACE.id,
+      name: file.name,
+      content: extracted.content,
+      pages: extracted.pages,
+      metadata: extracted.metadata,
+      chunks: extracted.chunks,
+      clauses: extracted.clauses,
+      size: formatFileSize(file.size),
+      processTime: file.processTime,
+      status: 'stored',
+      uploadDate: new Date().toISOString(),
+      type: file.type || 'text/plain',
+      parentId: file.parentId,
+      pdfData: file.pdfData,
+      attachmentIds: attachments.filter(doc => doc.parentId === extracted.id).map(doc => doc.id),
+      contentHash: extracted.contentHash,
+      // Uploads renewing a stored document are renumbered in handleFileUpload
+      version: file.parentId ? undefined : 1,
+      effectiveFrom: file.parentId ? undefined : detectEffectiveDate(extracted.content) ?? today(),
+    };
+
+    return [document, ...attachments];
   };
 
-  const processDocument = async (file: File): Promise<StoredDocument> => {
+  const processDocument = async (file: File): Promise<StoredDocument[]> => {
     const startTime = Date.now();
     
     // Simulate processing with progress
@@ -108,51 +335,113 @@ export default function LLMSystem() {
       setUploadProgress(prev => ({ ...prev, [fileId]: i }));
     }
 
-    const content = await extractTextFromFile(file);
+    let extracted: SegmentedDocument;
+    try {
+      extracted = await extractTextFromFile(file, fileId);
+    } finally {
+      setUploadProgress(prev => {
+        const newProgress = { ...prev };
+        delete newProgress[fileId];
+        return newProgress;
+      });
+    }
+
     const processTime = ((Date.now() - startTime) / 1000).toFixed(1);
-    
-    // Simulate document analysis
-    const chunks = Math.floor(Math.random() * 50) + 20;
-    const clauses = Math.floor(Math.random() * 20) + 5;
-    
-    const document: StoredDocument = {
-      id: fileId,
+    const isPdf = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+    return toStoredDocuments(extracted, {
       name: file.name,
-      content,
-      chunks,
-      clauses,
-      size: formatFileSize(file.size),
+      size: file.size,
+      type: file.type,
       processTime: `${processTime}s`,
-      status: 'stored',
-      uploadDate: new Date().toISOString(),
-      type: file.type || 'text/plain'
-    };
-
-    setUploadProgress(prev => {
-      const newProgress = { ...prev };
-      delete newProgress[fileId];
-      return newProgress;
+      pdfData: isPdf && file.size <= MAX_STORED_PDF_BYTES ? await readAsBase64(file) : undefined,
     });
+  };
 
-    return document;
+  // Removing an email also removes the attachments extracted from it (the store cascades the same way)
+  const withAttachmentIds = (ids: string[]) => {
+    const removedIds = new Set(ids);
+    let found = true;
+    while (found) {
+      found = false;
+      for (const doc of storedDocuments) {
+        if (doc.parentId && removedIds.has(doc.parentId) && !removedIds.has(doc.id)) {
+          removedIds.add(doc.id);
+          found = true;
+        }
+      }
+    }
+    return removedIds;
   };
 
+  // Shows the duplicate dialog and waits for the user to choose what happens to the upload
+  const askDuplicateAction = (upload: StoredDocument, match: DuplicateMatch) =>
+    new Promise<DuplicateAction>(resolve => setDuplicatePrompt({ upload, match, resolve }));
+
   const handleFileUpload = async (files: File[]) => {
     try {
       const processedDocs = await Promise.all(
         files.map(file => processDocument(file))
       );
-      
-      setStoredDocuments(prev => [...prev, ...processedDocs]);
-      
+
+      // Uploads repeating a stored document, or an earlier file in this batch, wait on the user's choice
+      const accepted: StoredDocument[][] = [];
+      const replacedIds: string[] = [];
+      const counts = { renewed: 0, replaced: 0, skipped: 0 };
+      for (const [upload, ...attachments] of processedDocs) {
+        const existing = [...storedDocuments.filter(d => !replacedIds.includes(d.id)), ...accepted.flat()];
+        const match = findDuplicate(existing, upload);
+        if (!match) {
+          // A file with the name of a stored document, or of one earlier in this batch, is its next version
+          const previous = findPreviousVersion(existing, upload.name);
+          if (previous) counts.renewed++;
+          accepted.push([previous ? { ...upload, tags: previous.tags, ...nextVersion(existing, previous) } : upload, ...attachments]);
+          continue;
+        }
+
+        const action = await askDuplicateAction(upload, match);
+        if (action === 'skip') {
+          counts.skipped++;
+        } else if (action === 'replace') {
+          // The upload takes the replaced document's place in its version group
+          const batchIndex = accepted.findIndex(([doc]) => doc.id === match.document.id);
+          if (batchIndex === -1) replacedIds.push(match.document.id);
+          else accepted.splice(batchIndex, 1);
+          counts.replaced++;
+          accepted.push([{
+            ...upload,
+            tags: match.document.tags,
+            versionGroupId: versionGroupOf(match.document),
+            version: match.document.version,
+            effectiveFrom: match.document.effectiveFrom,
+          }, ...attachments]);
+        } else {
+          counts.renewed++;
+          accepted.push([{ ...upload, tags: match.document.tags, ...nextVersion(existing, match.document) }, ...attachments]);
+        }
+      }
+
+      // Replaced documents are only removed once their replacements are stored
+      if (accepted.length > 0) await store.createDocuments(accepted.flat());
+      for (const id of replacedIds) {
+        await store.removeDocument(id);
+      }
+      const removedIds = withAttachmentIds(replacedIds);
+      setStoredDocuments(prev => [...prev.filter(doc => !removedIds.has(doc.id)), ...accepted.flat()]);
+
+      const attachmentCount = accepted.flat().length - accepted.length;
       toast({
         title: "Documents uploaded successfully",
-        description: `${files.length} document(s) processed and stored`,
+        description: `${accepted.length} document(s) processed and stored` +
+          (attachmentCount > 0 ? `, including ${attachmentCount} attachment(s)` : '') +
+          (counts.renewed > 0 ? `; ${counts.renewed} added as a new version of an existing document` : '') +
+          (counts.replaced > 0 ? `; ${counts.replaced} replaced an existing document` : '') +
+          (counts.skipped > 0 ? `; ${counts.skipped} duplicate(s) skipped` : ''),
       });
     } catch (error) {
       toast({
         title: "Upload failed",
-        description: "Failed to process documents",
+        description: error instanceof Error ? error.message : "Failed to process documents",
         variant: "destructive",
       });
     }
@@ -170,8 +459,61 @@ export default function LLMSystem() {
     event.preventDefault();
   };
 
-  const processQuery = async () => {
-    if (!currentQuery.trim() || storedDocuments.length === 0) {
+  // Queries in the same clarification thread, oldest first
+  const getThread = (result: QueryResult) => {
+    const rootId = result.threadId ?? result.id;
+    return queryHistory.filter(q => q.id === rootId || q.threadId === rootId).reverse();
+  };
+
+  // A parsed profile belongs to the query text it was parsed from
+  const updateQuery = (text: string) => {
+    setCurrentQuery(text);
+    setClaimProfile(null);
+  };
+
+  const parseQuery = async (queryText: string) => {
+    setIsParsing(true);
+    try {
+      const response = await fetch('/api/parse-query', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query: queryText }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Parsing failed');
+      }
+      setClaimProfile(data.profile);
+      return data.profile as ClaimProfile;
+    } catch (error) {
+      toast({
+        title: "Could not extract claim details",
+        description: error instanceof Error ? error.message : "The query will be sent without a claim profile.",
+        variant: "destructive",
+      });
+      return undefined;
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateClaimProfile = (changes: Partial<ClaimProfile>) => {
+    setClaimProfile(prev => {
+      const next: ClaimProfile = { ...prev, ...changes };
+      // Cleared fields are removed rather than sent as empty values
+      for (const [key, value] of Object.entries(next)) {
+        if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+          delete next[key as keyof ClaimProfile];
+        }
+      }
+      return next;
+    });
+  };
+
+  const processQuery = async (queryText: string, replyTo?: QueryResult) => {
+    if (!queryText.trim() || storedDocuments.length === 0) {
       toast({
         title: "Invalid query",
         description: "Please enter a query and ensure documents are uploaded",
@@ -180,91 +522,261 @@ export default function LLMSystem() {
       return;
     }
 
+    // Replies search the same documents as the query that started the thread
+    const scope = replyTo ? replyTo.documentScope : documentScope ?? undefined;
+    const scopedDocuments = resolveDocumentScope(storedDocuments, scope);
+    if (scopedDocuments.length === 0) {
+      toast({
+        title: "No documents selected",
+        description: "Select at least one document or tag to search",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // New queries are parsed first if the user skipped the review step; replies keep the thread's profile
+    const parsed = replyTo ? replyTo.claimProfile : claimProfile ?? await parseQuery(queryText);
+    const profile = parsed?.constraints
+      ? { ...parsed, constraints: parsed.constraints.map(item => item.trim()).filter(Boolean) }
+      : parsed;
+    // Renewed policies are evaluated as worded on the claim date
+    const { documents, versions } = selectVersionsInForce(scopedDocuments, profile?.claimDate);
+
     setIsProcessing(true);
     const startTime = Date.now();
 
     try {
-      const documentsContent = storedDocuments
-        .map(doc => `Document: ${doc.name}\n${doc.content}`)
-        .join('\n\n');
-
-      const response = await fetch('/api/process-document', {
+      const response = await fetch('/api/process-document/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          query: currentQuery,
-          documents: documentsContent,
+          query: queryText,
+          documents: documents.map(toRetrievalDocument),
+          history: replyTo
+            ? getThread(replyTo).map(({ query, result }) => ({
+                query,
+                result: {
+                  Decision: result.Decision,
+                  Justification: result.Justification,
+                  Missing: result.Missing,
+                  Suggested_Follow_up: result.Suggested_Follow_up,
+                  Extracted_Fields: result.Extracted_Fields,
+                },
+              }))
+            : [],
+          claimProfile: profile,
+          embeddingsStored: store.mode === 'server',
         }),
       });
 
-      const data = await response.json();
-      
-      if (response.ok) {
-        let processedResult;
-        try {
-          processedResult = typeof data.text === 'string' 
-            ? JSON.parse(data.text) 
-            : data.text;
-        } catch {
-          // Fallback if JSON parsing fails
-          processedResult = {
-            Decision: "Processed",
-            Justification: data.text || "Query processed successfully",
-            Clause_References: [],
-            Confidence: 0.8
-          };
-        }
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Processing failed');
+      }
 
-        const queryResult: QueryResult = {
-          id: `query_${Date.now()}`,
-          query: currentQuery,
-          timestamp: new Date().toISOString(),
-          result: processedResult,
-          processingTime: Date.now() - startTime
-        };
+      let streaming: StreamingQuery = { query: queryText, stage: 'retrieving', result: {} };
+      setStreamingQuery(streaming);
+      setActiveTab('results');
+
+      // The response is newline-delimited JSON events; partial decisions fill in the Results view
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      let review: DecisionReview | null = null;
+      while (!review) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line);
+          if (event.type === 'retrieval') {
+            if (event.embeddedChunks) keepChunkEmbeddings(event.embeddedChunks);
+            streaming = { ...streaming, stage: 'reasoning', retrievedChunks: event.retrievedChunks, model: event.model, rules: event.rules };
+          } else if (event.type === 'partial') {
+            streaming = { ...streaming, result: event.result };
+          } else if (event.type === 'final') {
+            review = event;
+          } else if (event.type === 'error') {
+            await reader.cancel();
+            throw new Error(event.error);
+          }
+        }
+        setStreamingQuery(streaming);
+      }
 
-        setQueryHistory(prev => [queryResult, ...prev]);
-        setCurrentResult(queryResult);
-        setActiveTab('results');
-        setCurrentQuery('');
+      if (!review) {
+        throw new Error('The response ended before a decision was returned');
+      }
+      const processedResult = review.result;
+
+      const queryResult: QueryResult = {
+        id: `query_${Date.now()}`,
+        workspaceId: activeWorkspaceId ?? DEFAULT_WORKSPACE.id,
+        query: queryText,
+        timestamp: new Date().toISOString(),
+        result: processedResult,
+        processingTime: Date.now() - startTime,
+        retrievedChunks: streaming.retrievedChunks,
+        model: streaming.model,
+        threadId: replyTo ? replyTo.threadId ?? replyTo.id : undefined,
+        documentScope: scope,
+        documentVersions: versions.length > 0 ? versions : undefined,
+        claimProfile: profile,
+        rules: review.rules,
+        amount: review.amount,
+        citations: review.citations,
+        modelConfidence: review.modelConfidence,
+      };
 
+      setQueryHistory(prev => [queryResult, ...prev]);
+      // The decision is already shown; a failed save shouldn't turn it into a processing error
+      store.createQueryResults([queryResult]).catch((error) => {
         toast({
-          title: "Query processed successfully",
-          description: `Decision: ${processedResult.Decision}`,
+          title: "Query not saved",
+          description: error instanceof Error ? error.message : "The result could not be stored in history",
+          variant: "destructive",
         });
-      } else {
-        throw new Error(data.error || 'Processing failed');
+      });
+      setCurrentResult(queryResult);
+      if (!replyTo) {
+        updateQuery('');
       }
+
+      toast({
+        title: "Query processed successfully",
+        description: `Decision: ${processedResult.Decision}`,
+      });
     } catch (error) {
       toast({
         title: "Processing failed",
-        description: "Failed to process the query. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to process the query. Please try again.",
         variant: "destructive",
       });
     } finally {
+      setStreamingQuery(null);
       setIsProcessing(false);
     }
   };
 
-  const removeDocument = (id: string) => {
-    setStoredDocuments(prev => prev.filter(doc => doc.id !== id));
+  const updateDocument = async (doc: StoredDocument, changes: Partial<StoredDocument>) => {
+    const updated = { ...doc, ...changes };
+    try {
+      await store.updateDocument(updated);
+    } catch (error) {
+      toast({
+        title: "Failed to update document",
+        description: error instanceof Error ? error.message : "The document could not be saved",
+        variant: "destructive",
+      });
+      return;
+    }
+    setStoredDocuments(prev => prev.map(d => d.id === doc.id ? updated : d));
+  };
+
+  // Names the documents and tags a query was limited to, for display alongside its result
+  const describeDocumentScope = (scope?: DocumentScope) => {
+    if (!scope) return 'All documents';
+    const names = scope.documentIds.map(id => storedDocuments.find(d => d.id === id)?.name ?? 'removed document');
+    return [...names, ...scope.tags.map(tag => `tag "${tag}"`)].join(', ');
+  };
+
+  // Where a version of a renewed document stands for claims made today
+  const versionStatus = (doc: StoredDocument) => {
+    const versions = documentVersions(storedDocuments, doc);
+    if (versions.length < 2) return null;
+    if (versionInForce(versions, today()).id === doc.id) return 'In force';
+    return (doc.effectiveFrom ?? '') > today() ? 'Upcoming' : 'Superseded';
+  };
+
+  const describeDocumentVersions = (versions: DocumentVersionUsed[]) =>
+    versions.map(v => `${v.name} v${v.version}` + (v.effectiveFrom ? ` (effective ${v.effectiveFrom})` : '')).join(', ');
+
+  const removeDocument = async (id: string) => {
+    try {
+      await store.removeDocument(id);
+    } catch (error) {
+      toast({
+        title: "Failed to remove document",
+        description: error instanceof Error ? error.message : "The document could not be removed",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const removedIds = withAttachmentIds([id]);
+    setStoredDocuments(prev => prev.filter(doc => !removedIds.has(doc.id)));
     toast({
       title: "Document removed",
       description: "Document has been removed from storage",
     });
   };
 
-  const clearAllData = () => {
+  const createWorkspace = async (name: string) => {
+    const workspace: Workspace = {
+      id: `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      await store.createWorkspace(workspace);
+    } catch (error) {
+      toast({
+        title: "Failed to create workspace",
+        description: error instanceof Error ? error.message : "The workspace could not be created",
+        variant: "destructive",
+      });
+      return;
+    }
+    setWorkspaces(prev => [...prev, workspace]);
+    setActiveWorkspaceId(workspace.id);
+  };
+
+  const deleteWorkspace = async (id: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    if (!workspace || !window.confirm(`Delete "${workspace.name}" with all of its documents and query history?`)) {
+      return;
+    }
+    try {
+      await store.removeWorkspace(id);
+    } catch (error) {
+      toast({
+        title: "Failed to delete workspace",
+        description: error instanceof Error ? error.message : "The workspace could not be deleted",
+        variant: "destructive",
+      });
+      return;
+    }
+    setWorkspaces(prev => prev.filter(w => w.id !== id));
+    setActiveWorkspaceId(DEFAULT_WORKSPACE.id);
+    toast({
+      title: "Workspace deleted",
+      description: `"${workspace.name}" and its data have been removed`,
+    });
+  };
+
+  const clearAllData = async () => {
+    try {
+      const workspaceId = activeWorkspaceId ?? DEFAULT_WORKSPACE.id;
+      await Promise.all([store.clearDocuments(workspaceId), store.clearQueryResults(workspaceId)]);
+    } catch (error) {
+      toast({
+        title: "Failed to clear data",
+        description: error instanceof Error ? error.message : "The stored data could not be removed",
+        variant: "destructive",
+      });
+      return;
+    }
     setStoredDocuments([]);
     setQueryHistory([]);
     setCurrentResult(null);
-    localStorage.removeItem('llm-documents');
-    localStorage.removeItem('llm-history');
     toast({
       title: "All data cleared",
-      description: "All documents and history have been removed",
+      description: "All documents and history in this workspace have been removed",
     });
   };
 
@@ -289,6 +801,110 @@ export default function LLMSystem() {
     }
   };
 
+  const openCitation = (index: number) => {
+    if (!currentResult) return;
+    const reference = currentResult.result.Clause_References[index];
+    const citation = currentResult.citations?.[index];
+    // Unverified citations open the named document without a highlight
+    const doc = storedDocuments.find(d => d.id === citation?.documentId)
+      ?? storedDocuments.find(d => d.name === reference?.Document || d.metadata?.policyNumber === reference?.Document);
+
+    if (!doc) {
+      toast({
+        title: "Document not found",
+        description: `"${reference?.Document}" is not among the uploaded documents`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setSelectedDocument(doc);
+    setCitationIndex(index);
+    setActiveTab('viewer');
+  };
+
+  // The highlighted range of the open citation, when it was located in the selected document
+  const citationRange = (() => {
+    const citation = citationIndex !== null ? currentResult?.citations?.[citationIndex] : undefined;
+    if (!citation || citation.offset === undefined || citation.documentId !== selectedDocument?.id) return null;
+    return { start: citation.offset, end: citation.offset + (citation.length ?? 0) };
+  })();
+
+  // Retrieved chunks and located citations of currentResult that fall in the selected document
+  const pdfHighlights: PdfHighlight[] = (() => {
+    if (!selectedDocument || !currentResult) return [];
+    const chunks = (currentResult.retrievedChunks ?? []).flatMap((retrieved): PdfHighlight[] => {
+      const chunk = retrieved.documentId === selectedDocument.id
+        ? selectedDocument.chunks.find((c) => c.id === retrieved.chunkId)
+        : undefined;
+      return chunk ? [{ id: `chunk-${chunk.id}`, kind: 'chunk', text: chunk.text, page: chunk.page }] : [];
+    });
+    const citations = (currentResult.citations ?? []).flatMap((citation, index): PdfHighlight[] =>
+      citation.documentId === selectedDocument.id && citation.offset !== undefined
+        ? [{
+            id: `citation-${index}`,
+            kind: 'citation',
+            text: selectedDocument.content.slice(citation.offset, citation.offset + (citation.length ?? 0)),
+            page: citation.page,
+          }]
+        : []
+    );
+    return [...chunks, ...citations];
+  })();
+
+  const selectedVersions = selectedDocument ? documentVersions(storedDocuments, selectedDocument) : [];
+  const compareVersion = selectedVersions.find(v => v.id === compareVersionId);
+
+  // Renders text starting at baseOffset in the document content, marking the part inside citationRange
+  const renderWithHighlight = (text: string, baseOffset: number) => {
+    if (!citationRange || citationRange.end <= baseOffset || citationRange.start >= baseOffset + text.length) {
+      return text;
+    }
+    const start = Math.max(0, citationRange.start - baseOffset);
+    const end = Math.min(text.length, citationRange.end - baseOffset);
+    return (
+      <>
+        {text.slice(0, start)}
+        <mark
+          id={citationRange.start >= baseOffset ? 'citation-highlight' : undefined}
+          className="bg-yellow-300/60 dark:bg-yellow-500/40 text-foreground rounded-sm"
+        >
+          {text.slice(start, end)}
+        </mark>
+        {text.slice(end)}
+      </>
+    );
+  };
+
+  const citationLabels: Record<CitationStatus, string> = {
+    verified: 'Verified',
+    paraphrased: 'Paraphrased',
+    not_found: 'Not found',
+  };
+
+  const getCitationColor = (status: CitationStatus) => {
+    switch (status) {
+      case 'verified':
+        return 'bg-green-500/10 text-green-500 border-green-500/20';
+      case 'paraphrased':
+        return 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20';
+      default:
+        return 'bg-red-500/10 text-red-500 border-red-500/20';
+    }
+  };
+
+  const getRuleStatusColor = (status: RuleStatus) => {
+    switch (status) {
+      case 'pass':
+        return 'bg-green-500/10 text-green-500 border-green-500/20';
+      case 'fail':
+        return 'bg-red-500/10 text-red-500 border-red-500/20';
+      case 'applies':
+        return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
+      default:
+        return 'bg-gray-500/10 text-gray-500 border-gray-500/20';
+    }
+  };
+
   const getDecisionColor = (decision: string) => {
     switch (decision.toLowerCase()) {
       case 'approved':
@@ -302,6 +918,43 @@ export default function LLMSystem() {
     }
   };
 
+  // While a query is streaming its partial decision replaces the latest result
+  const shownResult = streamingQuery ?? currentResult;
+
+  // History shows each clarification thread once, as its latest answer
+  const threadIds = new Set<string>();
+  const latestPerThread = queryHistory.filter((q) => {
+    const rootId = q.threadId ?? q.id;
+    if (threadIds.has(rootId)) return false;
+    threadIds.add(rootId);
+    return true;
+  });
+
+  // Text filters match case-insensitively against the stored claim profile; a range
+  // excludes queries whose profile doesn't give the value
+  const matchesHistoryFilter = (query: QueryResult) => {
+    const profile = query.claimProfile ?? {};
+    const contains = (value: string | undefined, filter: string) =>
+      !filter.trim() || (value ?? '').toLowerCase().includes(filter.trim().toLowerCase());
+    const within = (value: number | undefined, min: string, max: string) =>
+      (!min.trim() && !max.trim())
+      || (value !== undefined && (!min.trim() || value >= Number(min)) && (!max.trim() || value <= Number(max)));
+    return contains(profile.procedure, historyFilter.procedure)
+      && contains(profile.provider, historyFilter.provider)
+      && contains(profile.location, historyFilter.location)
+      && (historyFilter.gender === 'any' || profile.gender === historyFilter.gender)
+      && within(profile.age, historyFilter.minAge, historyFilter.maxAge)
+      && within(profile.policyDurationMonths, historyFilter.minDurationMonths, historyFilter.maxDurationMonths);
+  };
+  const filteredHistory = latestPerThread.filter(matchesHistoryFilter);
+
+  const currentThread = currentResult ? getThread(currentResult) : [];
+  const latestInThread = currentThread[currentThread.length - 1];
+  const threadMessages: ChatMessage[] = currentThread.flatMap(({ query, result }) => [
+    { type: 'user' as const, content: query },
+    { type: 'assistant' as const, content: result.Suggested_Follow_up || result.Justification, result },
+  ]);
+
   const tabs = [
     { id: 'upload' as Tab, label: 'Upload', icon: Upload },
     { id: 'query' as Tab, label: 'Query', icon: Search },
@@ -314,7 +967,7 @@ export default function LLMSystem() {
     { title: 'PDF Extraction', subtitle: 'Text & metadata parsing', icon: FileText, color: 'border-red-500/20 bg-red-500/5' },
     { title: 'DOCX Processing', subtitle: 'Structure preservation', icon: Database, color: 'border-blue-500/20 bg-blue-500/5' },
     { title: 'Email Analysis', subtitle: 'Content & attachments', icon: Mail, color: 'border-green-500/20 bg-green-500/5' },
-    { title: 'Permanent Storage', subtitle: 'Browser local storage', icon: HardDrive, color: 'border-purple-500/20 bg-purple-500/5' },
+    { title: 'Permanent Storage', subtitle: store.mode === 'browser' ? 'Browser IndexedDB' : 'Server-side SQLite store', icon: HardDrive, color: 'border-purple-500/20 bg-purple-500/5' },
   ];
 
   const approvedQueries = queryHistory.filter(q => q.result.Decision.toLowerCase() === 'approved').length;
@@ -355,6 +1008,14 @@ export default function LLMSystem() {
               </p>
             </div>
             <div className="flex items-center gap-2">
+              <WorkspaceSwitcher
+                workspaces={workspaces}
+                activeId={activeWorkspaceId}
+                onSelect={setActiveWorkspaceId}
+                onCreate={createWorkspace}
+                onDelete={deleteWorkspace}
+                disabled={isProcessing || Object.keys(uploadProgress).length > 0}
+              />
               <Button
                 variant="ghost"
                 size="sm"
@@ -422,7 +1083,7 @@ export default function LLMSystem() {
                 </h2>
                 <p className="text-sm text-muted-foreground">
                   Upload policy documents, contracts, emails, or other text files for intelligent processing. 
-                  All documents are stored permanently in your browser's local storage.
+                  All documents are stored permanently {store.mode === 'browser' ? "in this browser's IndexedDB" : 'in the server-side document store'}.
                 </p>
               </div>
 
@@ -437,7 +1098,7 @@ export default function LLMSystem() {
                   Drag & drop files here, or click to select
                 </h3>
                 <p className="text-sm text-muted-foreground mb-1">
-                  Supports PDF, DOCX, TXT, and EML files
+                  Supports PDF, DOCX, TXT, EML, MSG, and scanned PNG/JPG/TIFF files
                 </p>
                 <p className="text-xs text-muted-foreground">
                   Maximum file size: 10MB • Files stored permanently
@@ -446,7 +1107,7 @@ export default function LLMSystem() {
                   id="file-upload"
                   type="file"
                   multiple
-                  accept=".pdf,.docx,.txt,.eml"
+                  accept=".pdf,.docx,.txt,.eml,.msg,.png,.jpg,.jpeg,.tif,.tiff"
                   onChange={(e) => {
                     const files = Array.from(e.target.files || []);
                     if (files.length > 0) {
@@ -535,14 +1196,24 @@ export default function LLMSystem() {
               ) : (
                 <div className="space-y-3">
                   {storedDocuments.map((doc) => (
-                    <div key={doc.id} className="flex items-center justify-between p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors">
+                    <div key={doc.id} className={`flex items-center justify-between p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors ${doc.parentId ? 'ml-8' : ''}`}>
                       <div className="flex items-center gap-4">
-                        <FileText className="h-5 w-5 text-red-500" />
+                        {doc.metadata?.email ? (
+                          <Mail className="h-5 w-5 text-green-500" />
+                        ) : (
+                          <FileText className="h-5 w-5 text-red-500" />
+                        )}
                         <div>
                           <h3 className="font-medium text-foreground">{doc.name}</h3>
                           <div className="flex items-center gap-4 text-xs text-muted-foreground mt-1">
-                            <span>{doc.chunks} chunks</span>
-                            <span>{doc.clauses} clauses</span>
+                            {doc.parentId && (
+                              <span>Attachment of {storedDocuments.find(d => d.id === doc.parentId)?.name}</span>
+                            )}
+                            {doc.attachmentIds && doc.attachmentIds.length > 0 && (
+                              <span>{doc.attachmentIds.length} attachment(s)</span>
+                            )}
+                            <span>{doc.chunks.length} chunks</span>
+                            <span>{doc.clauses.length} clauses</span>
                             <span>{doc.size}</span>
                             <span>Processed in {doc.processTime}</span>
                             <div className="flex items-center gap-1">
@@ -550,6 +1221,26 @@ export default function LLMSystem() {
                               <span>Stored</span>
                             </div>
                           </div>
+                          {!doc.parentId && (
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground mt-2">
+                              <Badge variant="outline" className="text-xs">v{doc.version ?? 1}</Badge>
+                              {versionStatus(doc) && (
+                                <Badge variant={versionStatus(doc) === 'In force' ? 'default' : 'secondary'} className="text-xs">
+                                  {versionStatus(doc)}
+                                </Badge>
+                              )}
+                              <span>Effective from</span>
+                              <Input
+                                type="date"
+                                value={doc.effectiveFrom ?? doc.uploadDate.slice(0, 10)}
+                                onChange={(e) => e.target.value && updateDocument(doc, { effectiveFrom: e.target.value })}
+                                className="h-6 w-36 text-xs"
+                              />
+                            </div>
+                          )}
+                          <div className="mt-2">
+                            <TagEditor tags={doc.tags ?? []} onChange={(tags) => updateDocument(doc, { tags })} />
+                          </div>
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -558,6 +1249,7 @@ export default function LLMSystem() {
                           size="sm"
                           onClick={() => {
                             setSelectedDocument(doc);
+                            setCitationIndex(null);
                             setActiveTab('viewer');
                           }}
                         >
@@ -607,15 +1299,118 @@ export default function LLMSystem() {
                     <Textarea
                       placeholder="Enter your insurance query (e.g., '46-year-old male, knee surgery in Pune, 3-month-old insurance policy')"
                       value={currentQuery}
-                      onChange={(e) => setCurrentQuery(e.target.value)}
+                      onChange={(e) => updateQuery(e.target.value)}
                       rows={4}
                       className="resize-none"
                     />
                   </div>
 
+                  {claimProfile ? (
+                    <div className="p-4 border border-border rounded-lg space-y-3">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-medium text-foreground">Claim Details</h4>
+                        <span className="text-xs text-muted-foreground">Review and correct before processing</span>
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="text-xs text-muted-foreground mb-1 block">Age</label>
+                          <Input
+                            type="number"
+                            value={claimProfile.age ?? ''}
+                            onChange={(e) => updateClaimProfile({ age: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground mb-1 block">Gender</label>
+                          <Select
+                            value={claimProfile.gender ?? 'unknown'}
+                            onValueChange={(value) => updateClaimProfile({ gender: value === 'unknown' ? undefined : value as ClaimProfile['gender'] })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="unknown">Not specified</SelectItem>
+                              <SelectItem value="male">Male</SelectItem>
+                              <SelectItem value="female">Female</SelectItem>
+                              <SelectItem value="other">Other</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground mb-1 block">Procedure</label>
+                          <Input
+                            value={claimProfile.procedure ?? ''}
+                            onChange={(e) => updateClaimProfile({ procedure: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground mb-1 block">Location</label>
+                          <Input
+                            value={claimProfile.location ?? ''}
+                            onChange={(e) => updateClaimProfile({ location: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground mb-1 block">Insurance Provider</label>
+                          <Input
+                            value={claimProfile.provider ?? ''}
+                            onChange={(e) => updateClaimProfile({ provider: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground mb-1 block">Policy Duration (months)</label>
+                          <Input
+                            type="number"
+                            value={claimProfile.policyDurationMonths ?? ''}
+                            onChange={(e) => updateClaimProfile({ policyDurationMonths: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-muted-foreground mb-1 block">Claim Date</label>
+                          <Input
+                            type="date"
+                            value={claimProfile.claimDate ?? ''}
+                            onChange={(e) => updateClaimProfile({ claimDate: e.target.value })}
+                          />
+                        </div>
+                        <div className="col-span-2">
+                          <label className="text-xs text-muted-foreground mb-1 block">Constraints (comma-separated)</label>
+                          <Input
+                            value={claimProfile.constraints?.join(', ') ?? ''}
+                            onChange={(e) => updateClaimProfile({ constraints: e.target.value.split(',').map(item => item.trimStart()) })}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      onClick={() => parseQuery(currentQuery)}
+                      disabled={isParsing || isProcessing || !currentQuery.trim()}
+                      className="w-full"
+                    >
+                      {isParsing ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <FileText className="h-4 w-4 mr-2" />
+                      )}
+                      Extract Claim Details
+                    </Button>
+                  )}
+
+                  {storedDocuments.length > 0 && (
+                    <DocumentScopePicker
+                      documents={storedDocuments}
+                      scope={documentScope}
+                      onChange={setDocumentScope}
+                      disabled={isProcessing}
+                    />
+                  )}
+
                   <Button 
-                    onClick={processQuery}
-                    disabled={isProcessing || !currentQuery.trim() || storedDocuments.length === 0}
+                    onClick={() => processQuery(currentQuery)}
+                    disabled={isProcessing || isParsing || !currentQuery.trim() || storedDocuments.length === 0}
                     className="w-full"
                     size="lg"
                   >
@@ -651,7 +1446,7 @@ export default function LLMSystem() {
                         variant="outline"
                         size="sm"
                         className="w-full text-left justify-start h-auto p-3 text-xs"
-                        onClick={() => setCurrentQuery(sample)}
+                        onClick={() => updateQuery(sample)}
                       >
                         {sample}
                       </Button>
@@ -701,69 +1496,144 @@ export default function LLMSystem() {
             </div>
 
             {/* Current Result */}
-            {currentResult && (
+            {shownResult && (
               <div className="border border-border rounded-lg p-6">
                 <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
                   <BarChart3 className="h-5 w-5" />
                   Latest Query Result
                 </h3>
+
+                {streamingQuery && (
+                  <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {streamingQuery.stage === 'retrieving'
+                      ? 'Retrieving relevant clauses...'
+                      : `Found ${streamingQuery.retrievedChunks?.length ?? 0} relevant excerpts, generating decision...`}
+                  </div>
+                )}
                 
                 <div className="space-y-6">
                   {/* Decision */}
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
-                      {getDecisionIcon(currentResult.result.Decision)}
-                      <span className="font-semibold text-lg">{currentResult.result.Decision}</span>
+                      {getDecisionIcon(shownResult.result.Decision ?? '')}
+                      <span className="font-semibold text-lg">{shownResult.result.Decision ?? 'Deciding...'}</span>
                     </div>
-                    <Badge className={getDecisionColor(currentResult.result.Decision)}>
-                      {currentResult.result.Decision}
-                    </Badge>
+                    {shownResult.result.Decision && (
+                      <Badge className={getDecisionColor(shownResult.result.Decision)}>
+                        {shownResult.result.Decision}
+                      </Badge>
+                    )}
                   </div>
 
                   {/* Query */}
                   <div className="p-3 bg-muted rounded-lg">
                     <p className="text-sm font-medium text-muted-foreground mb-1">Query:</p>
-                    <p className="text-sm text-foreground">{currentResult.query}</p>
+                    <p className="text-sm text-foreground">{shownResult.query}</p>
+                    {shownResult.model && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Answered by {shownResult.model.provider} / {shownResult.model.modelId}
+                      </p>
+                    )}
+                    {currentResult && !streamingQuery && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Searched: {describeDocumentScope(currentResult.documentScope)}
+                      </p>
+                    )}
+                    {currentResult?.documentVersions && !streamingQuery && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Versions in force: {describeDocumentVersions(currentResult.documentVersions)}
+                      </p>
+                    )}
                   </div>
 
                   {/* Amount */}
-                  {currentResult.result.Amount && (
+                  {shownResult.result.Amount && (
                     <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
                       <p className="text-sm font-medium text-blue-900 dark:text-blue-100">Coverage Amount</p>
-                      <p className="text-lg font-bold text-blue-700 dark:text-blue-300">{currentResult.result.Amount}</p>
+                      <p className="text-lg font-bold text-blue-700 dark:text-blue-300">{shownResult.result.Amount}</p>
+                      {currentResult?.amount && !streamingQuery && (
+                        <p className="text-xs text-blue-800 dark:text-blue-200 mt-1">
+                          Normalized: {formatAmount(currentResult.amount)} ({currentResult.amount.currency})
+                        </p>
+                      )}
                     </div>
                   )}
 
+                  {/* Payout Calculator */}
+                  {currentResult && !streamingQuery && currentResult.result.Decision !== 'Rejected' && (
+                    <PayoutCalculator key={currentResult.id} amount={currentResult.amount} rules={currentResult.rules} />
+                  )}
+
                   {/* Confidence Score */}
                   <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
                     <div className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm font-medium text-foreground">Confidence Score</span>
                     </div>
-                    <span className="font-bold text-primary">
-                      {((currentResult.result.Confidence || 0) * 100).toFixed(1)}%
-                    </span>
+                    <div className="text-right">
+                      <span className="font-bold text-primary">
+                        {((shownResult.result.Confidence || 0) * 100).toFixed(1)}%
+                      </span>
+                      {!streamingQuery && currentResult?.modelConfidence !== undefined && currentResult.modelConfidence !== currentResult.result.Confidence && (
+                        <p className="text-xs text-muted-foreground">
+                          Lowered from {(currentResult.modelConfidence * 100).toFixed(1)}% for unverified citations
+                        </p>
+                      )}
+                    </div>
                   </div>
 
                   {/* Justification */}
                   <div>
                     <h4 className="font-medium text-foreground mb-2">Justification</h4>
-                    <p className="text-sm text-muted-foreground leading-relaxed">{currentResult.result.Justification}</p>
+                    <p className="text-sm text-muted-foreground leading-relaxed">{shownResult.result.Justification}</p>
                   </div>
 
+                  {/* Rule Checks */}
+                  {shownResult.rules && shownResult.rules.outcomes.length > 0 && (
+                    <div>
+                      <h4 className="font-medium text-foreground mb-3">Rule Checks</h4>
+                      {shownResult.rules.conflicts.length > 0 && (
+                        <div className="p-3 mb-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                          <p className="text-sm font-medium text-red-900 dark:text-red-100 mb-1">Rules disagree with the model</p>
+                          <ul className="list-disc list-inside text-sm text-red-800 dark:text-red-200 space-y-1">
+                            {shownResult.rules.conflicts.map((conflict, index) => (
+                              <li key={index}>{conflict}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        {shownResult.rules.outcomes.map((outcome, index) => (
+                          <div key={index} className="flex items-start justify-between gap-3 p-2 border border-border rounded">
+                            <div>
+                              <p className="text-sm text-foreground">{outcome.message}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {outcome.source.documentName}{outcome.source.page ? ` — Page ${outcome.source.page}` : ''}
+                              </p>
+                            </div>
+                            <Badge className={getRuleStatusColor(outcome.status)}>
+                              {outcome.status}
+                            </Badge>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Missing Information */}
-                  {currentResult.result.Missing && currentResult.result.Missing.length > 0 && (
+                  {shownResult.result.Missing && shownResult.result.Missing.length > 0 && (
                     <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
                       <h4 className="font-medium text-yellow-900 dark:text-yellow-100 mb-2">Missing Information</h4>
                       <ul className="list-disc list-inside text-sm text-yellow-800 dark:text-yellow-200 space-y-1">
-                        {currentResult.result.Missing.map((item, index) => (
+                        {shownResult.result.Missing.map((item, index) => item && (
                           <li key={index}>{item}</li>
                         ))}
                       </ul>
-                      {currentResult.result.Suggested_Follow_up && (
+                      {shownResult.result.Suggested_Follow_up && (
                         <div className="mt-3 pt-3 border-t border-yellow-200 dark:border-yellow-800">
                           <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                            <strong>Suggested Follow-up:</strong> {currentResult.result.Suggested_Follow_up}
+                            <strong>Suggested Follow-up:</strong> {shownResult.result.Suggested_Follow_up}
                           </p>
                         </div>
                       )}
@@ -771,23 +1641,74 @@ export default function LLMSystem() {
                   )}
 
                   {/* Clause References */}
-                  {currentResult.result.Clause_References && currentResult.result.Clause_References.length > 0 && (
+                  {shownResult.result.Clause_References && shownResult.result.Clause_References.length > 0 && (
                     <div>
                       <h4 className="font-medium text-foreground mb-3">Referenced Clauses</h4>
                       <div className="space-y-3">
-                        {currentResult.result.Clause_References.map((ref, index) => (
-                          <div key={index} className="p-3 border border-border rounded-lg">
-                            <div className="flex items-center justify-between mb-2">
-                              <span className="font-medium text-sm text-foreground">{ref.Document}</span>
-                              <Badge variant="outline" className="text-xs">
-                                Page {ref.Page}
-                              </Badge>
-                            </div>
-                            <p className="text-xs text-muted-foreground mb-2 italic">"{ref.Clause_Snippet}"</p>
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs text-primary font-medium">Concept:</span>
-                              <span className="text-xs text-foreground">{ref.Matched_Concept}</span>
+                        {shownResult.result.Clause_References.map((ref, index) => {
+                          if (!ref) return null;
+                          const citation = streamingQuery ? undefined : currentResult?.citations?.[index];
+                          return (
+                            <div
+                              key={index}
+                              className={`p-3 border rounded-lg ${citation?.status === 'not_found' ? 'border-red-500/40 bg-red-500/5' : 'border-border'} ${streamingQuery ? '' : 'cursor-pointer hover:bg-muted/50 transition-colors'}`}
+                              onClick={streamingQuery ? undefined : () => openCitation(index)}
+                              title={streamingQuery ? undefined : 'Show this passage in the Viewer'}
+                            >
+                              <div className="flex items-center justify-between mb-2">
+                                <span className="font-medium text-sm text-foreground">{ref.Document}</span>
+                                <div className="flex items-center gap-2">
+                                  {citation && (
+                                    <Badge className={`text-xs ${getCitationColor(citation.status)}`}>
+                                      {citationLabels[citation.status]}
+                                    </Badge>
+                                  )}
+                                  <Badge variant="outline" className="text-xs">
+                                    Page {ref.Page}
+                                  </Badge>
+                                </div>
+                              </div>
+                              <p className="text-xs text-muted-foreground mb-2 italic">"{ref.Clause_Snippet}"</p>
+                              {citation && citation.status !== 'not_found' && (
+                                <p className="text-xs text-muted-foreground mb-2">
+                                  Found in {citation.documentName} at character {citation.offset}
+                                  {citation.page ? `, page ${citation.page}` : ''}
+                                  {citation.page && String(citation.page) !== ref.Page ? ` (cited as page ${ref.Page})` : ''}
+                                  {citation.status === 'paraphrased' ? ` — ${Math.round(citation.score * 100)}% word match` : ''}
+                                </p>
+                              )}
+                              {citation?.status === 'not_found' && (
+                                <p className="text-xs text-red-600 dark:text-red-400 mb-2">
+                                  This snippet could not be found in the uploaded documents.
+                                </p>
+                              )}
+                              <div className="flex items-center gap-2">
+                                <span className="text-xs text-primary font-medium">Concept:</span>
+                                <span className="text-xs text-foreground">{ref.Matched_Concept}</span>
+                              </div>
                             </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Retrieved Context */}
+                  {shownResult.retrievedChunks && shownResult.retrievedChunks.length > 0 && (
+                    <div>
+                      <h4 className="font-medium text-foreground mb-3">
+                        Context Sent to Model ({shownResult.retrievedChunks.length} chunks, ~
+                        {shownResult.retrievedChunks.reduce((acc, chunk) => acc + chunk.tokens, 0)} tokens)
+                      </h4>
+                      <div className="space-y-2">
+                        {shownResult.retrievedChunks.map((chunk) => (
+                          <div key={chunk.chunkId} className="flex items-center justify-between text-xs p-2 bg-muted rounded">
+                            <span className="text-foreground">
+                              {chunk.documentName}{chunk.page ? ` — Page ${chunk.page}` : ''}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {chunk.method === 'hybrid' ? 'Fused rank' : chunk.method === 'vector' ? 'Similarity' : 'BM25'} {chunk.score.toFixed(3)} • {chunk.tokens} tokens
+                            </span>
                           </div>
                         ))}
                       </div>
@@ -797,6 +1718,17 @@ export default function LLMSystem() {
               </div>
             )}
 
+            {/* Clarification Thread */}
+            {latestInThread && (currentThread.length > 1 || latestInThread.result.Decision === 'Needs Clarification') && (
+              <ChatInterface
+                chatHistory={threadMessages}
+                onReply={latestInThread.result.Decision === 'Needs Clarification'
+                  ? (answer) => processQuery(answer, latestInThread)
+                  : undefined}
+                isProcessing={isProcessing}
+              />
+            )}
+
             {/* Dashboard Sections */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               {/* Query Breakdown */}
@@ -889,8 +1821,27 @@ export default function LLMSystem() {
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-foreground">Storage System</span>
-                    <span className="px-2 py-1 bg-purple-500/10 text-purple-500 text-xs rounded-full">Persistent</span>
+                    <span className="px-2 py-1 bg-purple-500/10 text-purple-500 text-xs rounded-full">
+                      {store.mode === 'browser' ? 'Browser (IndexedDB)' : 'Server (SQLite)'}
+                    </span>
                   </div>
+                  {storageUsage && (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>Storage Used</span>
+                        <span>
+                          {formatFileSize(storageUsage.usage)} of {formatFileSize(storageUsage.quota)} ({(storageRatio * 100).toFixed(1)}%)
+                        </span>
+                      </div>
+                      <Progress value={Math.min(100, storageRatio * 100)} className="h-2" />
+                      {storageNearlyFull && (
+                        <p className="flex items-center gap-1 text-xs text-red-500">
+                          <AlertCircle className="h-3 w-3" />
+                          Storage is almost full. Remove documents or history before uploading more.
+                        </p>
+                      )}
+                    </div>
+                  )}
                   <div className="pt-4 space-y-2">
                     <Button 
                       variant="outline" 
@@ -928,7 +1879,10 @@ export default function LLMSystem() {
                   <Button 
                     variant="outline" 
                     size="sm"
-                    onClick={() => setSelectedDocument(null)}
+                    onClick={() => {
+                      setSelectedDocument(null);
+                      setCitationIndex(null);
+                    }}
                   >
                     <X className="h-4 w-4 mr-2" />
                     Close
@@ -943,7 +1897,10 @@ export default function LLMSystem() {
                   <div 
                     key={doc.id} 
                     className="p-4 border border-border rounded-lg hover:bg-muted/50 cursor-pointer transition-colors"
-                    onClick={() => setSelectedDocument(doc)}
+                    onClick={() => {
+                      setSelectedDocument(doc);
+                      setCitationIndex(null);
+                    }}
                   >
                     <div className="flex items-center gap-3 mb-3">
                       <FileText className="h-8 w-8 text-red-500" />
@@ -955,11 +1912,11 @@ export default function LLMSystem() {
                     <div className="text-xs text-muted-foreground space-y-1">
                       <div className="flex justify-between">
                         <span>Chunks:</span>
-                        <span>{doc.chunks}</span>
+                        <span>{doc.chunks.length}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Clauses:</span>
-                        <span>{doc.clauses}</span>
+                        <span>{doc.clauses.length}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Processed:</span>
@@ -978,11 +1935,20 @@ export default function LLMSystem() {
                       <div>
                         <h3 className="font-medium text-foreground">{selectedDocument.name}</h3>
                         <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                          <span>{selectedDocument.chunks} chunks</span>
-                          <span>{selectedDocument.clauses} clauses</span>
+                          <span>{selectedDocument.chunks.length} chunks</span>
+                          <span>{selectedDocument.clauses.length} clauses</span>
                           <span>{selectedDocument.size}</span>
                           <span>Uploaded: {new Date(selectedDocument.uploadDate).toLocaleDateString()}</span>
                         </div>
+                        {selectedDocument.metadata && (
+                          <div className="flex items-center gap-4 text-xs text-muted-foreground mt-1">
+                            {selectedDocument.metadata.title && <span>Title: {selectedDocument.metadata.title}</span>}
+                            {selectedDocument.metadata.author && <span>Author: {selectedDocument.metadata.author}</span>}
+                            {selectedDocument.metadata.policyNumber && <span>Policy No: {selectedDocument.metadata.policyNumber}</span>}
+                            {selectedDocument.metadata.pageCount && <span>{selectedDocument.metadata.pageCount} pages</span>}
+                            {selectedDocument.metadata.ocr && <span>Text recognized by OCR</span>}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <Badge className="bg-green-500/10 text-green-500 border-green-500/20">
@@ -990,13 +1956,124 @@ export default function LLMSystem() {
                     </Badge>
                   </div>
                 </div>
+                {citationIndex !== null && currentResult && (
+                  <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-border bg-yellow-500/5">
+                    <div className="text-xs text-muted-foreground min-w-0">
+                      <span className="font-medium text-foreground">
+                        Citation {citationIndex + 1} of {currentResult.result.Clause_References.length}
+                      </span>
+                      {' — '}
+                      {currentResult.result.Clause_References[citationIndex]?.Matched_Concept}
+                      {!citationRange && ' (passage not located in this document)'}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={citationIndex === 0}
+                        onClick={() => openCitation(citationIndex - 1)}
+                      >
+                        Previous
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={citationIndex >= currentResult.result.Clause_References.length - 1}
+                        onClick={() => openCitation(citationIndex + 1)}
+                      >
+                        Next
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setActiveTab('results')}>
+                        Back to Results
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                {selectedVersions.length > 1 && (
+                  <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-border">
+                    <span className="text-xs text-muted-foreground">
+                      Version {selectedDocument.version ?? 1} of {selectedVersions.length}
+                      {selectedDocument.effectiveFrom && `, effective ${selectedDocument.effectiveFrom}`}
+                    </span>
+                    <Select
+                      value={compareVersionId ?? 'none'}
+                      onValueChange={(value) => setCompareVersionId(value === 'none' ? null : value)}
+                    >
+                      <SelectTrigger className="h-8 w-48 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No comparison</SelectItem>
+                        {selectedVersions.filter(v => v.id !== selectedDocument.id).map(v => (
+                          <SelectItem key={v.id} value={v.id}>Compare with v{v.version ?? 1}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {compareVersion && (
+                  (compareVersion.version ?? 1) < (selectedDocument.version ?? 1)
+                    ? <ClauseDiff older={compareVersion} newer={selectedDocument} />
+                    : <ClauseDiff older={selectedDocument} newer={compareVersion} />
+                )}
+                {selectedDocument.pdfData && (
+                  <div className="flex items-center gap-2 px-4 py-2 border-b border-border">
+                    <Button
+                      variant={viewerMode === 'pages' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setViewerMode('pages')}
+                    >
+                      Pages
+                    </Button>
+                    <Button
+                      variant={viewerMode === 'text' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setViewerMode('text')}
+                    >
+                      Extracted Text
+                    </Button>
+                  </div>
+                )}
+                {selectedDocument.pdfData && viewerMode === 'pages' ? (
+                  <PdfViewer
+                    data={selectedDocument.pdfData}
+                    highlights={pdfHighlights}
+                    focusId={citationIndex !== null ? `citation-${citationIndex}` : undefined}
+                  />
+                ) : (
                 <ScrollArea className="h-96 p-6">
                   <div className="prose prose-sm max-w-none dark:prose-invert">
-                    <pre className="whitespace-pre-wrap text-sm text-foreground font-mono">
-                      {selectedDocument.content}
-                    </pre>
+                    {selectedDocument.pages && (selectedDocument.pages.length > 1 || selectedDocument.metadata?.ocr) ? (
+                      selectedDocument.pages.map((page) => (
+                        <div key={page.number} className="mb-6">
+                          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground border-b border-border pb-1 mb-2">
+                            Page {page.number}
+                            {page.ocrConfidence !== undefined && (
+                              <Badge
+                                variant="outline"
+                                className={page.ocrConfidence < LOW_OCR_CONFIDENCE
+                                  ? 'bg-red-500/10 text-red-500 border-red-500/20'
+                                  : 'text-xs'}
+                              >
+                                {page.ocrConfidence < LOW_OCR_CONFIDENCE && <AlertCircle className="h-3 w-3 mr-1" />}
+                                OCR {(page.ocrConfidence * 100).toFixed(0)}%
+                                {page.ocrConfidence < LOW_OCR_CONFIDENCE && ' — low quality, verify against original'}
+                              </Badge>
+                            )}
+                          </div>
+                          <pre className="whitespace-pre-wrap text-sm text-foreground font-mono">
+                            {renderWithHighlight(page.text, page.offset)}
+                          </pre>
+                        </div>
+                      ))
+                    ) : (
+                      <pre className="whitespace-pre-wrap text-sm text-foreground font-mono">
+                        {renderWithHighlight(selectedDocument.content, 0)}
+                      </pre>
+                    )}
                   </div>
                 </ScrollArea>
+                )}
               </div>
             )}
 
@@ -1027,12 +2104,21 @@ export default function LLMSystem() {
                 <Button 
                   variant="outline" 
                   size="sm"
-                  onClick={() => {
+                  onClick={async () => {
+                    try {
+                      await store.clearQueryResults(activeWorkspaceId ?? DEFAULT_WORKSPACE.id);
+                    } catch (error) {
+                      toast({
+                        title: "Failed to clear history",
+                        description: error instanceof Error ? error.message : "The query history could not be removed",
+                        variant: "destructive",
+                      });
+                      return;
+                    }
                     setQueryHistory([]);
-                    localStorage.removeItem('llm-history');
                     toast({
                       title: "History cleared",
-                      description: "All query history has been removed",
+                      description: "All query history in this workspace has been removed",
                     });
                   }}
                 >
@@ -1042,6 +2128,64 @@ export default function LLMSystem() {
               )}
             </div>
 
+            {queryHistory.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <Input
+                  placeholder="Filter by procedure"
+                  value={historyFilter.procedure}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, procedure: e.target.value }))}
+                />
+                <Input
+                  placeholder="Filter by provider"
+                  value={historyFilter.provider}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, provider: e.target.value }))}
+                />
+                <Input
+                  placeholder="Filter by location"
+                  value={historyFilter.location}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, location: e.target.value }))}
+                />
+                <Select
+                  value={historyFilter.gender}
+                  onValueChange={(value) => setHistoryFilter(prev => ({ ...prev, gender: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any gender</SelectItem>
+                    <SelectItem value="male">Male</SelectItem>
+                    <SelectItem value="female">Female</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  placeholder="Min age"
+                  value={historyFilter.minAge}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, minAge: e.target.value }))}
+                />
+                <Input
+                  type="number"
+                  placeholder="Max age"
+                  value={historyFilter.maxAge}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, maxAge: e.target.value }))}
+                />
+                <Input
+                  type="number"
+                  placeholder="Min policy duration (months)"
+                  value={historyFilter.minDurationMonths}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, minDurationMonths: e.target.value }))}
+                />
+                <Input
+                  type="number"
+                  placeholder="Max policy duration (months)"
+                  value={historyFilter.maxDurationMonths}
+                  onChange={(e) => setHistoryFilter(prev => ({ ...prev, maxDurationMonths: e.target.value }))}
+                />
+              </div>
+            )}
+
             {queryHistory.length === 0 ? (
               <div className="text-center py-12 border border-dashed border-border rounded-lg">
                 <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -1056,7 +2200,10 @@ export default function LLMSystem() {
               </div>
             ) : (
               <div className="space-y-4">
-                {queryHistory.map((query) => (
+                {filteredHistory.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-6">No queries match these filters.</p>
+                )}
+                {filteredHistory.map((query) => (
                   <div key={query.id} className="border border-border rounded-lg p-6 hover:bg-muted/50 transition-colors">
                     <div className="flex items-start justify-between mb-4">
                       <div className="flex items-center gap-3">
@@ -1072,6 +2219,7 @@ export default function LLMSystem() {
                             </span>
                             <span>Processing: {(query.processingTime / 1000).toFixed(2)}s</span>
                             <span>Confidence: {((query.result.Confidence || 0) * 100).toFixed(1)}%</span>
+                            {query.model && <span>Model: {query.model.provider}/{query.model.modelId}</span>}
                           </div>
                         </div>
                       </div>
@@ -1090,8 +2238,23 @@ export default function LLMSystem() {
 
                     <div className="space-y-3">
                       <div>
-                        <p className="text-sm font-medium text-muted-foreground mb-1">Query:</p>
-                        <p className="text-sm text-foreground bg-muted p-3 rounded">{query.query}</p>
+                        <p className="text-sm font-medium text-muted-foreground mb-1">
+                          {query.threadId ? `Thread (${getThread(query).length} turns):` : 'Query:'}
+                        </p>
+                        <div className="space-y-2">
+                          {(query.threadId ? getThread(query) : [query]).map((turn) => (
+                            <p key={turn.id} className="text-sm text-foreground bg-muted p-3 rounded">{turn.query}</p>
+                          ))}
+                        </div>
+                        {query.claimProfile && Object.keys(query.claimProfile).length > 0 && (
+                          <p className="text-xs text-muted-foreground mt-2">{formatClaimProfile(query.claimProfile)}</p>
+                        )}
+                        {query.documentScope && (
+                          <p className="text-xs text-muted-foreground mt-1">Searched: {describeDocumentScope(query.documentScope)}</p>
+                        )}
+                        {query.documentVersions && (
+                          <p className="text-xs text-muted-foreground mt-1">Versions in force: {describeDocumentVersions(query.documentVersions)}</p>
+                        )}
                       </div>
 
                       <div>
@@ -1113,6 +2276,15 @@ export default function LLMSystem() {
           </div>
         )}
       </div>
+
+      <DuplicateDialog
+        upload={duplicatePrompt?.upload ?? null}
+        match={duplicatePrompt?.match ?? null}
+        onResolve={(action) => {
+          duplicatePrompt?.resolve(action);
+          setDuplicatePrompt(null);
+        }}
+      />
     </div>
   );
 }
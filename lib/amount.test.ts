@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { calculatePayout, parseAmount } from "./amount";
+
+describe("parseAmount", () => {
+  it("reads Indian grouping and lakh/crore multipliers", () => {
+    assert.deepEqual(parseAmount("₹1,50,000"), { value: 150000, currency: "INR", basis: "exact" });
+    assert.deepEqual(parseAmount("up to 2 lakhs"), { value: 200000, currency: "INR", basis: "up_to" });
+    assert.deepEqual(parseAmount("Rs. 1.5 crore per policy year"), { value: 15000000, currency: "INR", basis: "per_year" });
+  });
+
+  it("prefers the currency-marked figure over earlier numbers", () => {
+    assert.deepEqual(parseAmount("After 30 days, 20% co-pay applies to ₹40,000"), { value: 40000, currency: "INR", basis: "exact" });
+    assert.deepEqual(parseAmount("Clause 4.2: up to $5,000 per claim"), { value: 5000, currency: "USD", basis: "per_claim" });
+  });
+
+  it("takes the currency next to the figure rather than elsewhere in the text", () => {
+    assert.equal(parseAmount("Converted from USD: Rs 8,300")?.currency, "INR");
+  });
+
+  it("returns null when only percentages or durations are present", () => {
+    assert.equal(parseAmount("1% of sum insured after 24 months"), null);
+  });
+});
+
+describe("calculatePayout", () => {
+  it("applies room rent, deductible, co-pay and sum insured in order", () => {
+    const { steps, payable } = calculatePayout({
+      claimed: 200000,
+      roomRent: { chargedPerDay: 8000, capPerDay: 5000, days: 4 },
+      deductible: 10000,
+      coPayPercent: 20,
+      sumInsured: 100000,
+    });
+    assert.deepEqual(steps.map((step) => step.value), [200000, 188000, 178000, 142400, 100000]);
+    assert.equal(payable, 100000);
+  });
+});
@@ -0,0 +1,159 @@
+export type Currency = "INR" | "USD" | "EUR" | "GBP";
+
+/** How an amount applies: a fixed figure, a cap, or a cap per day or per year. */
+export type AmountBasis = "exact" | "up_to" | "per_day" | "per_year" | "per_claim";
+
+export interface ParsedAmount {
+  value: number;
+  currency: Currency;
+  basis: AmountBasis;
+}
+
+const CURRENCY_PATTERNS: Array<[RegExp, Currency]> = [
+  [/₹|\brs\.?|\binr\b|\brupees?\b/i, "INR"],
+  [/\$|\busd\b|\bdollars?\b/i, "USD"],
+  [/€|\beur\b|\beuros?\b/i, "EUR"],
+  [/£|\bgbp\b|\bpounds?\b/i, "GBP"],
+];
+
+const MULTIPLIERS: Array<[RegExp, number]> = [
+  [/^(?:crores?|cr)\b/i, 10_000_000],
+  [/^(?:lakhs?|lacs?|l)\b/i, 100_000],
+  [/^(?:millions?|mn|m)\b/i, 1_000_000],
+  [/^(?:thousands?|k)\b/i, 1_000],
+];
+
+function parseBasis(text: string): AmountBasis {
+  if (/per\s+day|\/\s*day|daily|per\s+diem/i.test(text)) return "per_day";
+  if (/per\s+(?:annum|year|policy\s+year)|annual/i.test(text)) return "per_year";
+  if (/per\s+claim/i.test(text)) return "per_claim";
+  if (/up\s*to|upto|maximum|max\.?\b|limit|capped|not\s+exceeding/i.test(text)) return "up_to";
+  return "exact";
+}
+
+// Currency markers written before the figure ("₹", "Rs.", "INR 5,000", "$")
+const CURRENCY_PREFIX = /(?:₹|\brs\.?|\binr|\$|€|£|\busd|\beur|\bgbp)\s*$/i;
+// Counts of time or quantities that share sentences with amounts ("after 30 days", "24 hours")
+const NON_AMOUNT_SUFFIX = /^(?:%|(?:days?|weeks?|months?|years?|yrs?|hours?|hrs?|times|members?)\b)/i;
+
+/**
+ * Parses free-form amounts such as "₹50,000", "up to 2 lakhs" or
+ * "Rs. 1.5 crore per policy year". Indian digit grouping is accepted;
+ * amounts without a currency marker are taken to be rupees. In text with
+ * several numbers, the one marked by a currency or a lakh/crore multiplier
+ * is the amount.
+ */
+export function parseAmount(text: string): ParsedAmount | null {
+  const candidates = [...text.matchAll(/((?:\d{1,3}(?:,\d{2,3})+|\d+)(?:\.\d+)?)\s*/g)].flatMap((number) => {
+    const start = number.index ?? 0;
+    const rest = text.slice(start + number[0].length);
+    // Percentages ("1% of sum insured") are limits relative to another amount, not amounts
+    if (NON_AMOUNT_SUFFIX.test(rest)) return [];
+    const multiplier = MULTIPLIERS.find(([pattern]) => pattern.test(rest));
+    const context = text.slice(Math.max(0, start - 6), start) + number[0] + rest.slice(0, 10);
+    return [{
+      value: Number(number[1].replace(/,/g, "")) * (multiplier?.[1] ?? 1),
+      marked: CURRENCY_PREFIX.test(text.slice(0, start)) || !!multiplier || /^(?:rupees?|dollars?|euros?|pounds?)\b/i.test(rest),
+      currency: CURRENCY_PATTERNS.find(([pattern]) => pattern.test(context))?.[1],
+    }];
+  });
+  const amount = candidates.find((candidate) => candidate.marked) ?? candidates[0];
+  if (!amount) return null;
+
+  const currency = amount.currency ?? CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? "INR";
+  return { value: Math.round(amount.value * 100) / 100, currency, basis: parseBasis(text) };
+}
+
+const BASIS_SUFFIXES: Record<AmountBasis, string> = {
+  exact: "",
+  up_to: "",
+  per_day: " per day",
+  per_year: " per year",
+  per_claim: " per claim",
+};
+
+/** Formats a value in its currency, using lakh grouping for rupees. */
+export function formatCurrency(value: number, currency: Currency = "INR") {
+  return new Intl.NumberFormat(currency === "INR" ? "en-IN" : "en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+export function formatAmount(amount: ParsedAmount) {
+  const prefix = amount.basis === "up_to" ? "Up to " : "";
+  return `${prefix}${formatCurrency(amount.value, amount.currency)}${BASIS_SUFFIXES[amount.basis]}`;
+}
+
+export interface PayoutInput {
+  claimed: number;
+  currency?: Currency;
+  sumInsured?: number;
+  deductible?: number;
+  coPayPercent?: number;
+  // Caps stated in the decision or policy, e.g. a cataract sub-limit
+  subLimits?: Array<{ label: string; value: number }>;
+  roomRent?: { chargedPerDay: number; days: number; capPerDay: number };
+}
+
+export interface PayoutStep {
+  label: string;
+  detail: string;
+  // Running payable amount after this step
+  value: number;
+}
+
+/**
+ * Works out the payable amount for a claim: room-rent excess and
+ * sub-limits first, then the deductible and co-pay, and finally the sum
+ * insured. Each step records the running total for display.
+ */
+export function calculatePayout(input: PayoutInput) {
+  const currency = input.currency ?? "INR";
+  const money = (value: number) => formatCurrency(value, currency);
+  const steps: PayoutStep[] = [];
+  let payable = Math.max(0, input.claimed);
+  steps.push({ label: "Claimed amount", detail: money(payable), value: payable });
+
+  if (input.roomRent && input.roomRent.chargedPerDay > input.roomRent.capPerDay) {
+    const { chargedPerDay, capPerDay, days } = input.roomRent;
+    const excess = (chargedPerDay - capPerDay) * days;
+    payable = Math.max(0, payable - excess);
+    steps.push({
+      label: "Room rent cap",
+      detail: `${money(chargedPerDay)}/day charged vs ${money(capPerDay)}/day allowed × ${days} days = ${money(excess)} not payable`,
+      value: payable,
+    });
+  }
+
+  for (const limit of input.subLimits ?? []) {
+    if (payable > limit.value) {
+      payable = limit.value;
+      steps.push({ label: limit.label, detail: `Capped at ${money(limit.value)}`, value: payable });
+    }
+  }
+
+  if (input.deductible) {
+    payable = Math.max(0, payable - input.deductible);
+    steps.push({ label: "Deductible", detail: `${money(input.deductible)} borne by the insured`, value: payable });
+  }
+
+  if (input.coPayPercent) {
+    const share = (payable * input.coPayPercent) / 100;
+    payable -= share;
+    steps.push({
+      label: "Co-pay",
+      detail: `${input.coPayPercent}% of the admissible amount (${money(share)}) borne by the insured`,
+      value: payable,
+    });
+  }
+
+  if (input.sumInsured !== undefined && payable > input.sumInsured) {
+    payable = input.sumInsured;
+    steps.push({ label: "Sum insured", detail: `Capped at ${money(input.sumInsured)}`, value: payable });
+  }
+
+  return { steps, payable: Math.round(payable * 100) / 100 };
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ProcessingResult } from "@/lib/decision";
+import { verifyCitation, verifyCitations } from "./citations";
+
+const content = "4.2 Waiting Periods\nKnee replacement surgery is covered after a waiting period of 24 months from the first policy inception.";
+const documents = [{ id: "doc-1", name: "policy.pdf", chunks: [{ id: "chunk-1", index: 0, text: content, start: 0, end: content.length, page: 7 }] }];
+
+function decision(snippets: string[], confidence = 0.82456): ProcessingResult {
+  return {
+    Decision: "Rejected",
+    Justification: "Waiting period not served.",
+    Confidence: confidence,
+    Clause_References: snippets.map((snippet) => ({ Document: "policy.pdf", Clause_Snippet: snippet, Page: "7", Matched_Concept: "waiting period" })),
+  };
+}
+
+describe("verifyCitation", () => {
+  it("verifies exact snippets despite case, quote and whitespace differences", () => {
+    const check = verifyCitation("knee  replacement surgery is covered after a waiting period", "policy.pdf", documents);
+    assert.equal(check.status, "verified");
+    assert.equal(check.page, 7);
+    assert.equal(content.slice(check.offset, (check.offset ?? 0) + (check.length ?? 0)), "Knee replacement surgery is covered after a waiting period");
+  });
+
+  it("matches elided snippets part by part", () => {
+    assert.equal(verifyCitation("Knee replacement surgery ... 24 months", "policy.pdf", documents).status, "verified");
+  });
+
+  it("marks reworded snippets as paraphrased", () => {
+    const check = verifyCitation("knee replacement surgery is covered after a waiting time of 24 months from inception", "policy.pdf", documents);
+    assert.equal(check.status, "paraphrased");
+  });
+
+  it("reports snippets absent from every document as not found", () => {
+    const check = verifyCitation("Dental treatment is excluded", "policy.pdf", documents);
+    assert.equal(check.status, "not_found");
+    assert.equal(check.documentId, undefined);
+  });
+});
+
+describe("verifyCitations", () => {
+  it("leaves confidence untouched when every citation verifies", () => {
+    const { result } = verifyCitations(decision(["a waiting period of 24 months"]), documents);
+    assert.equal(result.Confidence, 0.82456);
+  });
+
+  it("lowers confidence for each citation that does not verify", () => {
+    const { result, citations } = verifyCitations(decision(["a waiting period of 24 months", "Dental treatment is excluded"], 0.9), documents);
+    assert.deepEqual(citations.map((citation) => citation.status), ["verified", "not_found"]);
+    assert.equal(result.Confidence, 0.63);
+  });
+});
@@ -0,0 +1,179 @@
+import type { ProcessingResult } from "@/lib/decision";
+import type { RetrievalDocument } from "@/lib/retrieval";
+
+export type CitationStatus = "verified" | "paraphrased" | "not_found";
+
+/** Where a cited Clause_Snippet was found in the uploaded documents. */
+export interface CitationCheck {
+  status: CitationStatus;
+  // Share of the snippet's words found together in the source, 0..1
+  score: number;
+  documentId?: string;
+  documentName?: string;
+  // Character range in the document's content
+  offset?: number;
+  length?: number;
+  page?: number;
+}
+
+const VERIFIED_SCORE = 0.9;
+const PARAPHRASED_SCORE = 0.6;
+
+// Each unverified citation scales the model's confidence down
+const CONFIDENCE_FACTORS: Record<CitationStatus, number> = {
+  verified: 1,
+  paraphrased: 0.9,
+  not_found: 0.7,
+};
+
+interface NormalizedText {
+  text: string;
+  // Original index of each normalized character
+  positions: number[];
+}
+
+// Lowercases and unifies quotes, dashes and whitespace, so snippets copied from PDFs still match
+function normalize(text: string): NormalizedText {
+  let normalized = "";
+  const positions: number[] = [];
+  for (let index = 0; index < text.length; index++) {
+    let char = text[index].toLowerCase();
+    if (/[‘’`]/.test(char)) char = "'";
+    else if (/[“”]/.test(char)) char = '"';
+    else if (/[–—‐]/.test(char)) char = "-";
+    else if (/\s/.test(char)) {
+      if (normalized.endsWith(" ") || normalized.length === 0) continue;
+      char = " ";
+    }
+    normalized += char;
+    positions.push(index);
+  }
+  return { text: normalized, positions };
+}
+
+// Chunks overlap and cover the whole document, so placing them at their offsets rebuilds its content
+function documentContent(document: RetrievalDocument) {
+  const length = Math.max(0, ...document.chunks.map((chunk) => chunk.end));
+  const chars = new Array<string>(length).fill(" ");
+  for (const chunk of document.chunks) {
+    for (let index = 0; index < chunk.text.length; index++) {
+      chars[chunk.start + index] = chunk.text[index];
+    }
+  }
+  return chars.join("");
+}
+
+function pageAt(document: RetrievalDocument, offset: number) {
+  return document.chunks.find((chunk) => chunk.start <= offset && offset < chunk.end)?.page;
+}
+
+function words(text: string) {
+  return Array.from(text.matchAll(/[a-z0-9]+/g), (match) => ({ word: match[0], index: match.index ?? 0 }));
+}
+
+// Snippets often elide text with "..."; each part must then be found in order
+function snippetParts(snippet: string) {
+  return normalize(snippet).text
+    .split(/\.{3}|…/)
+    .map((part) => part.replace(/^[\s"']+|[\s"']+$/g, ""))
+    .filter((part) => part.length > 0);
+}
+
+function exactMatch(parts: string[], content: NormalizedText) {
+  let from = 0;
+  let first = -1;
+  let last = -1;
+  for (const part of parts) {
+    const index = content.text.indexOf(part, from);
+    if (index === -1) return null;
+    if (first === -1) first = index;
+    last = index + part.length;
+    from = last;
+  }
+  return { start: content.positions[first], end: content.positions[last - 1] + 1 };
+}
+
+// Best window of the snippet's length by shared word count, tolerant of reordering and small edits
+function fuzzyMatch(snippet: string, content: NormalizedText) {
+  const target = words(snippet.replace(/\.{3}|…/g, " "));
+  const source = words(content.text);
+  const size = target.length;
+  if (size === 0 || source.length === 0) return null;
+
+  const wanted = new Map<string, number>();
+  for (const { word } of target) wanted.set(word, (wanted.get(word) ?? 0) + 1);
+
+  const window = new Map<string, number>();
+  let shared = 0;
+  let best = { shared: 0, start: 0 };
+  const add = (word: string, delta: number) => {
+    const before = window.get(word) ?? 0;
+    const after = before + delta;
+    window.set(word, after);
+    const limit = wanted.get(word) ?? 0;
+    shared += Math.min(after, limit) - Math.min(before, limit);
+  };
+
+  for (let index = 0; index < source.length; index++) {
+    add(source[index].word, 1);
+    if (index >= size) add(source[index - size].word, -1);
+    if (shared > best.shared) best = { shared, start: Math.max(0, index - size + 1) };
+  }
+  if (best.shared === 0) return null;
+
+  const endWord = source[Math.min(source.length - 1, best.start + size - 1)];
+  return {
+    score: best.shared / size,
+    start: content.positions[source[best.start].index],
+    end: content.positions[endWord.index + endWord.word.length - 1] + 1,
+  };
+}
+
+/** Finds a cited snippet in the documents, preferring the one the citation names. */
+export function verifyCitation(snippet: string, documentName: string, documents: RetrievalDocument[]): CitationCheck {
+  const named = documentName.toLowerCase().trim();
+  const ordered = [...documents].sort((a, b) => {
+    const matches = (document: RetrievalDocument) =>
+      document.name.toLowerCase() === named || (!!document.policyNumber && named.includes(document.policyNumber.toLowerCase()));
+    return Number(matches(b)) - Number(matches(a));
+  });
+
+  const parts = snippetParts(snippet);
+  let best: CitationCheck = { status: "not_found", score: 0 };
+  for (const document of ordered) {
+    const content = normalize(documentContent(document));
+    const exact = parts.length > 0 ? exactMatch(parts, content) : null;
+    const match = exact ? { ...exact, score: 1 } : fuzzyMatch(normalize(snippet).text, content);
+    if (!match || match.score <= best.score) continue;
+
+    best = {
+      status: match.score >= VERIFIED_SCORE ? "verified" : match.score >= PARAPHRASED_SCORE ? "paraphrased" : "not_found",
+      score: Math.round(match.score * 100) / 100,
+      documentId: document.id,
+      documentName: document.name,
+      offset: match.start,
+      length: match.end - match.start,
+      page: pageAt(document, match.start),
+    };
+    if (match.score === 1) break;
+  }
+  // A weak best match is not evidence of where the citation came from
+  return best.status === "not_found" ? { status: "not_found", score: best.score } : best;
+}
+
+/**
+ * Checks every Clause_Reference against the documents and lowers the
+ * decision's confidence for each citation that is paraphrased or missing.
+ */
+export function verifyCitations(result: ProcessingResult, documents: RetrievalDocument[]) {
+  const citations = result.Clause_References.map((reference) =>
+    verifyCitation(reference.Clause_Snippet, reference.Document, documents)
+  );
+  const factor = citations.reduce((product, citation) => product * CONFIDENCE_FACTORS[citation.status], 1);
+
+  return {
+    // Left as the model returned it when every citation verifies, so it is only reported lowered when it was
+    result: factor < 1 ? { ...result, Confidence: Math.round(result.Confidence * factor * 100) / 100 } : result,
+    citations,
+  };
+}
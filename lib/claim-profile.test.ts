@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { claimProfileSchema, parseClaimProfile } from "./claim-profile";
+
+describe("parseClaimProfile", () => {
+  it("reads compact shorthand", () => {
+    assert.deepEqual(parseClaimProfile("46M, knee surgery in Pune, 3-month-old insurance policy"), {
+      age: 46,
+      gender: "male",
+      procedure: "knee surgery",
+      location: "Pune",
+      policyDurationMonths: 3,
+    });
+  });
+
+  it("does not read a policy duration as an age", () => {
+    const profile = parseClaimProfile("Cataract surgery, policy active for 2 years");
+    assert.equal(profile.age, undefined);
+    assert.equal(profile.policyDurationMonths, 24);
+  });
+
+  it("takes the admission date over the policy start date", () => {
+    const profile = parseClaimProfile("Policy started on 01/04/2023, admitted on 15/06/2025 for angioplasty");
+    assert.equal(profile.claimDate, "2025-06-15");
+  });
+});
+
+describe("claimProfileSchema", () => {
+  it("normalises claim dates to ISO and drops unreadable ones", () => {
+    assert.equal(claimProfileSchema.parse({ claimDate: "15 June 2025" }).claimDate, "2025-06-15");
+    assert.equal(claimProfileSchema.parse({ claimDate: "sometime last year" }).claimDate, undefined);
+  });
+});
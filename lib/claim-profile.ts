@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { findDates, parseDate } from "@/lib/dates";
+
+/** The structured claim details behind a free-text query. */
+export const claimProfileSchema = z.object({
+  age: z.coerce.number().int().min(0).max(120).optional(),
+  gender: z.enum(["male", "female", "other"]).optional(),
+  procedure: z.string().optional().describe("Medical procedure or treatment, e.g. knee surgery"),
+  location: z.string().optional().describe("City or region where treatment happens"),
+  provider: z.string().optional().describe("Insurance company or plan name"),
+  policyDurationMonths: z.coerce.number().min(0).optional().describe("How long the policy has been active, in months"),
+  constraints: z.array(z.string()).optional().describe("E.g. co-payment, pre-existing conditions, network hospital"),
+  // Dates in other formats are normalised, and unreadable ones dropped, so versions are compared as ISO dates
+  claimDate: z
+    .preprocess((value) => (typeof value === "string" ? parseDate(value) : value), z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional())
+    .describe("Date of admission or treatment as YYYY-MM-DD, if the query gives one"),
+});
+
+export type ClaimProfile = z.infer<typeof claimProfileSchema>;
+
+const PROVIDERS = [
+  "HDFC Ergo",
+  "Bajaj Allianz",
+  "ICICI Lombard",
+  "Star Health",
+  "Niva Bupa",
+  "Care Health",
+  "Tata AIG",
+  "New India Assurance",
+  "Aditya Birla",
+  "SBI General",
+  "Reliance General",
+  "United India",
+  "National Insurance",
+  "Oriental Insurance",
+];
+
+const PROCEDURE_WORDS =
+  "surgery|replacement|transplant|operation|procedure|treatment|therapy|delivery|angioplasty|bypass|dialysis|chemotherapy|removal|repair|fracture";
+
+const CONSTRAINTS: Array<[RegExp, string]> = [
+  [/co-?pay/i, "co-payment"],
+  [/pre-?existing/i, "pre-existing condition"],
+  [/non-?network/i, "non-network hospital"],
+  [/\bcashless\b/i, "cashless"],
+  [/\breimburse/i, "reimbursement"],
+  [/\bemergency\b/i, "emergency"],
+];
+
+// Words that end the phrase leading into a procedure word ("needs cataract surgery" -> "cataract surgery")
+const FILLER_WORDS = new Set([
+  "a", "an", "the", "for", "of", "is", "are", "was", "needs", "need", "had", "has", "have", "with", "and", "underwent",
+  "undergoing", "male", "female", "man", "woman", "old", "year", "years", "covered", "my", "his", "her",
+]);
+
+const CLAIM_DATE_LEAD =
+  /\b(?:admitted|admission|hospitali[sz](?:ed|ation)|treated|treatment|operated|surgery|discharged|claim(?:ed)?|date of (?:admission|treatment|claim))\b/i;
+const POLICY_DATE_LEAD =
+  /\b(?:policy|cover|coverage|plan|insurance)\b.*\b(?:taken|issued|start(?:ed|s|ing)?|purchased|bought|commenced|began|inception|renewed)\b|\b(?:policy|cover|plan)\s+(?:since|from)\b/i;
+
+function parseGender(token: string): ClaimProfile["gender"] {
+  const lower = token.toLowerCase();
+  if (lower === "m" || lower === "male" || lower === "man") return "male";
+  if (lower === "f" || lower === "female" || lower === "woman") return "female";
+  return undefined;
+}
+
+function toMonths(value: number, unit: string) {
+  return /^y/i.test(unit) ? value * 12 : /^w/i.test(unit) ? Math.round(value / 4.345) : /^d/i.test(unit) ? Math.round(value / 30) : value;
+}
+
+// "N years" is how long the policy has run, not an age, after "for"/"since" or in a phrase about
+// the policy ("active for 2 years", "the policy is 2 years old", "a 2 years old policy")
+function isAgePhrase(query: string, match: RegExpMatchArray) {
+  const before = query.slice(0, match.index).split(/[,;.]/).pop() ?? "";
+  const after = query.slice((match.index ?? 0) + match[0].length);
+  return !/\b(?:for|since|past|last|over|within|after)\s*$/i.test(before)
+    && !/\b(?:policy|cover|coverage|plan)\b/i.test(before)
+    && !/^[\s-]*(?:(?:insurance|health)\s+)?(?:policy|cover|coverage|plan)\b/i.test(after);
+}
+
+/**
+ * Deterministic extraction for common shorthand ("46M, knee surgery in
+ * Pune, 3-month policy"). Used when the model is unavailable or returns an
+ * invalid profile, so the Query tab always has something to edit.
+ */
+export function parseClaimProfile(query: string): ClaimProfile {
+  const profile: ClaimProfile = {};
+
+  const compact = query.match(/\b(\d{1,3})\s*(?:y(?:rs?)?\s*)?([MF])\b/);
+  const spelled = [...query.matchAll(/\b(\d{1,3})[\s-]*(?:years?|yrs?|y\/o)(?:[\s-]*old)?\b/gi)].find((match) => isAgePhrase(query, match));
+  const age = compact?.[1] ?? spelled?.[1];
+  if (age && Number(age) <= 120) profile.age = Number(age);
+
+  const gender = compact?.[2] ?? query.match(/\b(male|female|man|woman)\b/i)?.[1];
+  if (gender) profile.gender = parseGender(gender);
+
+  const procedure = query.match(new RegExp(`\\b((?:[a-z-]+\\s+){0,3}(?:${PROCEDURE_WORDS}))\\b`, "i"))?.[1];
+  if (procedure) {
+    const words = procedure.toLowerCase().split(/\s+/);
+    let start = words.length - 1;
+    while (start > 0 && !FILLER_WORDS.has(words[start - 1])) start--;
+    profile.procedure = words.slice(start).join(" ");
+  }
+
+  // "in Pune", or a lone capitalized entry in a comma-separated query ("46M, knee surgery, Pune")
+  const location = query.match(/\b(?:in|at)\s+([A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)?)/)?.[1]
+    ?? query.split(",").map((part) => part.trim()).find((part) => /^[A-Z][a-z]+$/.test(part));
+  if (location && !PROVIDERS.some((name) => name.toLowerCase().startsWith(location.toLowerCase()))) {
+    profile.location = location;
+  }
+
+  const lowerQuery = query.toLowerCase();
+  profile.provider = PROVIDERS.find((name) => lowerQuery.includes(name.toLowerCase()));
+
+  const duration = query.match(/\b(\d+)[\s-]*(days?|weeks?|months?|years?|yrs?)(?:[\s-]*old)?[\s-]*(?:(?:insurance|health)\s+)?(?:policy|cover|coverage|plan)\b/i)
+    ?? query.match(/\bpolicy\b[^.,;]*?\b(\d+)[\s-]*(days?|weeks?|months?|years?|yrs?)\b/i);
+  if (duration) profile.policyDurationMonths = toMonths(Number(duration[1]), duration[2]);
+
+  const constraints = CONSTRAINTS.filter(([pattern]) => pattern.test(query)).map(([, label]) => label);
+  if (constraints.length > 0) profile.constraints = constraints;
+
+  // A date introduced as the admission or treatment date, else the first that isn't when the policy began
+  const dates = findDates(query).map((date, index, all) => ({
+    ...date,
+    lead: query.slice(index > 0 ? all[index - 1].end : 0, date.index).split(/[,;]/).pop() ?? "",
+  }));
+  profile.claimDate = (
+    dates.find(({ lead }) => CLAIM_DATE_LEAD.test(lead))
+    ?? dates.find(({ lead }) => !POLICY_DATE_LEAD.test(lead))
+  )?.date;
+
+  return Object.fromEntries(Object.entries(profile).filter(([, value]) => value !== undefined)) as ClaimProfile;
+}
+
+/** A one-line summary of the profile for prompts and history. */
+export function formatClaimProfile(profile: ClaimProfile) {
+  return [
+    profile.age !== undefined && `Age: ${profile.age}`,
+    profile.gender && `Gender: ${profile.gender}`,
+    profile.procedure && `Procedure: ${profile.procedure}`,
+    profile.location && `Location: ${profile.location}`,
+    profile.provider && `Provider: ${profile.provider}`,
+    profile.policyDurationMonths !== undefined && `Policy duration: ${profile.policyDurationMonths} months`,
+    profile.constraints?.length && `Constraints: ${profile.constraints.join(", ")}`,
+    profile.claimDate && `Claim date: ${profile.claimDate}`,
+  ].filter(Boolean).join("; ");
+}
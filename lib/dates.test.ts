@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findDates, parseDate } from "./dates";
+
+describe("parseDate", () => {
+  it("reads ISO, day-first numeric and written dates", () => {
+    assert.equal(parseDate("2025-03-12"), "2025-03-12");
+    assert.equal(parseDate("on 12/03/2025"), "2025-03-12");
+    assert.equal(parseDate("w.e.f. 1st April 2025"), "2025-04-01");
+    assert.equal(parseDate("from March 12, 2025"), "2025-03-12");
+  });
+
+  it("rejects impossible dates", () => {
+    assert.equal(parseDate("31/02/2025"), undefined);
+  });
+});
+
+describe("findDates", () => {
+  it("returns every date in order with where it was written", () => {
+    const text = "Policy from 01/04/2023, admitted 15 June 2025";
+    assert.deepEqual(findDates(text).map(({ date, index }) => ({ date, at: text.slice(index, index + 2) })), [
+      { date: "2023-04-01", at: "01" },
+      { date: "2025-06-15", at: "15" },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const MONTH_PATTERN = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+function monthNumber(name: string) {
+  return MONTHS.findIndex((month) => month.startsWith(name.toLowerCase().slice(0, 3))) + 1;
+}
+
+function toIsoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+export interface DateMatch {
+  date: string;
+  index: number;
+  end: number;
+}
+
+/**
+ * Finds the first date in the text, returned as YYYY-MM-DD with where it
+ * was written. Recognizes 2025-03-12, 12/03/2025 and 12.03.2025 (day first,
+ * as Indian policy documents write them), 12 March 2025 and March 12, 2025.
+ */
+function matchDate(text: string): DateMatch | undefined {
+  const patterns: Array<[RegExp, (match: RegExpMatchArray) => string | undefined]> = [
+    [/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, (m) => toIsoDate(Number(m[1]), Number(m[2]), Number(m[3]))],
+    [/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})\b/, (m) => toIsoDate(Number(m[3]), Number(m[2]), Number(m[1]))],
+    [
+      new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\.?,?\\s+(\\d{4})\\b`, "i"),
+      (m) => toIsoDate(Number(m[3]), monthNumber(m[2]), Number(m[1])),
+    ],
+    [
+      new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "i"),
+      (m) => toIsoDate(Number(m[3]), monthNumber(m[1]), Number(m[2])),
+    ],
+  ];
+
+  // Earliest match in the text wins, whichever format it is written in
+  let found: DateMatch | undefined;
+  for (const [pattern, convert] of patterns) {
+    const match = text.match(pattern);
+    const date = match && convert(match);
+    if (match && date && (!found || match.index! < found.index)) {
+      found = { date, index: match.index!, end: match.index! + match[0].length };
+    }
+  }
+  return found;
+}
+
+/** The first date in the text as YYYY-MM-DD. */
+export function parseDate(text: string): string | undefined {
+  return matchDate(text)?.date;
+}
+
+/** Every date in the text, in order. */
+export function findDates(text: string): DateMatch[] {
+  const dates: DateMatch[] = [];
+  let offset = 0;
+  let match: DateMatch | undefined;
+  while ((match = matchDate(text.slice(offset)))) {
+    dates.push({ date: match.date, index: offset + match.index, end: offset + match.end });
+    offset += match.end;
+  }
+  return dates;
+}
+
+/** Today as YYYY-MM-DD in local time. */
+export function today() {
+  const now = new Date();
+  return toIsoDate(now.getFullYear(), now.getMonth() + 1, now.getDate())!;
+}
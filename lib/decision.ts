@@ -0,0 +1,60 @@
+import type { DeepPartial } from "ai";
+import { z } from "zod";
+
+export const clauseReferenceSchema = z.object({
+  Document: z.string().describe("Filename or policy number"),
+  Clause_Snippet: z.string().describe("Exact clause text used, quoted from the excerpt"),
+  Page: z.coerce.string().describe("Page number from the [Page N] marker preceding the clause"),
+  Matched_Concept: z.string().describe("E.g. waiting period, covered treatment"),
+});
+
+/** Fields the model extracts from the query, merged across a clarification thread. */
+export const extractedFieldsSchema = z.object({
+  Age: z.coerce.string().optional(),
+  Gender: z.string().optional(),
+  Procedure: z.string().optional(),
+  Location: z.string().optional(),
+  Insurance_Provider: z.string().optional(),
+  Policy_Duration: z.string().optional(),
+  Constraints: z.array(z.string()).optional().describe("E.g. co-payment, exclusions, pre-existing conditions"),
+});
+
+/**
+ * The decision the model returns for a query. This is the single
+ * definition of the shape: the model is called in structured-output mode
+ * against it and the UI's result types are inferred from it.
+ */
+export const decisionSchema = z.object({
+  Decision: z.enum(["Approved", "Rejected", "Needs Clarification"]),
+  Amount: z.string().optional().describe("Payout amount or limit, if any"),
+  Justification: z.string().describe("Summary of reasoning"),
+  Clause_References: z.array(clauseReferenceSchema),
+  Confidence: z.coerce.number().min(0).max(1).describe("0 to 1 score based on clause match strength"),
+  Missing: z.array(z.string()).optional().describe("Information needed before a decision can be made"),
+  Suggested_Follow_up: z.string().optional().describe("Question to ask the user for the missing information"),
+  Extracted_Fields: extractedFieldsSchema.optional(),
+});
+
+export type ClauseReference = z.infer<typeof clauseReferenceSchema>;
+export type ExtractedFields = z.infer<typeof extractedFieldsSchema>;
+export type ProcessingResult = z.infer<typeof decisionSchema>;
+export type DecisionOutcome = ProcessingResult["Decision"];
+export type PartialProcessingResult = DeepPartial<ProcessingResult>;
+
+/** An earlier query in a clarification thread, as sent back to the model. */
+export interface ClarificationTurn {
+  query: string;
+  result: Pick<ProcessingResult, "Decision" | "Justification" | "Missing" | "Suggested_Follow_up" | "Extracted_Fields">;
+}
+
+/** Later turns override earlier ones; fields a turn leaves empty are kept. */
+export function mergeExtractedFields(fields: Array<ExtractedFields | undefined>) {
+  const merged: ExtractedFields = {};
+  for (const turn of fields) {
+    for (const [key, value] of Object.entries(turn ?? {})) {
+      if (value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0)) continue;
+      Object.assign(merged, { [key]: value });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { StoredDocument } from "@/lib/store/types";
+import { findDuplicate } from "./duplicates";
+
+function document(id: string, content: string, changes: Partial<StoredDocument> = {}): StoredDocument {
+  return {
+    id,
+    name: `${id}.pdf`,
+    content,
+    pages: [],
+    metadata: {} as StoredDocument["metadata"],
+    chunks: [],
+    clauses: [],
+    size: "1 KB",
+    processTime: "0.1s",
+    status: "stored",
+    uploadDate: "2024-01-01T00:00:00.000Z",
+    type: "application/pdf",
+    ...changes,
+  };
+}
+
+// 200 distinct words, so each one changed alters at most five of the ~196 shingles
+const wording = Array.from({ length: 200 }, (_, index) => `word${index}`).join(" ");
+
+function withChangedWords(count: number) {
+  const words = wording.split(" ");
+  for (let index = 0; index < count; index++) words[index * 20] = `changed${index}`;
+  return words.join(" ");
+}
+
+describe("findDuplicate", () => {
+  it("finds exact duplicates by content hash", () => {
+    const stored = document("stored", "one", { contentHash: "abc" });
+    const match = findDuplicate([stored], document("upload", "other text", { contentHash: "abc" }));
+    assert.deepEqual(match && { id: match.document.id, exact: match.exact, similarity: match.similarity }, { id: "stored", exact: true, similarity: 1 });
+  });
+
+  it("compares normalized text for documents stored without a hash", () => {
+    const match = findDuplicate([document("stored", "Room  rent\nis capped")], document("upload", "Room rent is capped", { contentHash: "abc" }));
+    assert.equal(match?.exact, true);
+  });
+
+  it("flags near duplicates at or above the threshold and not below it", () => {
+    const stored = document("stored", wording);
+    const near = findDuplicate([stored], document("upload", withChangedWords(1)));
+    assert.equal(near?.exact, false);
+    assert.ok(near && near.similarity >= 0.9 && near.similarity < 1);
+    assert.equal(findDuplicate([stored], document("upload", withChangedWords(4))), undefined);
+  });
+
+  it("ignores attachments and the upload itself", () => {
+    const upload = document("upload", wording);
+    assert.equal(findDuplicate([upload, document("attachment", wording, { parentId: "email" })], upload), undefined);
+  });
+
+  it("never treats documents without text as duplicates", () => {
+    const scan = document("scan", " \n", { contentHash: "empty" });
+    assert.equal(findDuplicate([scan], document("upload", "", { contentHash: "empty" })), undefined);
+    assert.equal(findDuplicate([document("stored", wording)], document("upload", "")), undefined);
+  });
+});
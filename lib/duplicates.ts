@@ -0,0 +1,88 @@
+import type { StoredDocument } from "@/lib/store/types";
+
+export type DuplicateAction = "skip" | "replace" | "version";
+
+export interface DuplicateMatch {
+  document: StoredDocument;
+  // Jaccard similarity of the two documents' word shingles (1 for identical content)
+  similarity: number;
+  exact: boolean;
+}
+
+// Uploads sharing this fraction of their wording with a stored document are flagged
+export const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+// Words per shingle; long enough that unrelated policies sharing boilerplate stay apart
+const SHINGLE_SIZE = 5;
+
+const shingleCache = new WeakMap<StoredDocument, Set<number>>();
+
+function normalizeContent(content: string) {
+  return content.replace(/\s+/g, " ").trim();
+}
+
+// 32-bit FNV-1a, so shingle sets hold numbers rather than strings
+function hashShingle(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function shinglesOf(document: StoredDocument) {
+  const cached = shingleCache.get(document);
+  if (cached) return cached;
+
+  const words = document.content.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const shingles = new Set<number>();
+  for (let i = 0; words.length > 0 && i + SHINGLE_SIZE <= Math.max(words.length, SHINGLE_SIZE); i++) {
+    shingles.add(hashShingle(words.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+  shingleCache.set(document, shingles);
+  return shingles;
+}
+
+function jaccard(a: Set<number>, b: Set<number>) {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function isExactDuplicate(a: StoredDocument, b: StoredDocument) {
+  if (a.contentHash && b.contentHash) return a.contentHash === b.contentHash;
+  // Documents stored before hashing existed have no hash to compare, so their text is compared
+  return normalizeContent(a.content) === normalizeContent(b.content);
+}
+
+/**
+ * The stored top-level document an upload repeats, if any: an exact match
+ * by content hash, otherwise the most similar document at or above
+ * NEAR_DUPLICATE_THRESHOLD. Documents without text, such as scans OCR
+ * read nothing from, are never duplicates.
+ */
+export function findDuplicate(documents: StoredDocument[], upload: StoredDocument): DuplicateMatch | undefined {
+  if (!normalizeContent(upload.content)) return undefined;
+  const candidates = documents.filter((doc) => !doc.parentId && doc.id !== upload.id && normalizeContent(doc.content));
+  const exact = candidates.find((doc) => isExactDuplicate(doc, upload));
+  if (exact) return { document: exact, similarity: 1, exact: true };
+
+  const uploadShingles = shinglesOf(upload);
+  let best: DuplicateMatch | undefined;
+  for (const document of candidates) {
+    const shingles = shinglesOf(document);
+    // Jaccard can't exceed the ratio of the set sizes, so clearly different lengths are skipped
+    const sizeRatio = Math.min(shingles.size, uploadShingles.size) / Math.max(shingles.size, uploadShingles.size);
+    if (sizeRatio < NEAR_DUPLICATE_THRESHOLD) continue;
+
+    const similarity = jaccard(uploadShingles, shingles);
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { document, similarity, exact: false };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,38 @@
+import mammoth from "mammoth";
+import { htmlToStructuredText } from "./html";
+import { detectPolicyNumber, joinPages } from "./metadata";
+import type { ExtractedDocument } from "./types";
+
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+];
+
+export async function extractDocx(data: Uint8Array): Promise<ExtractedDocument> {
+  const { value: html, messages } = await mammoth.convertToHtml(
+    { buffer: Buffer.from(data) },
+    {
+      styleMap: STYLE_MAP,
+      ignoreEmptyParagraphs: true,
+      convertImage: mammoth.images.imgElement(async () => ({ src: "" })),
+    }
+  );
+  for (const message of messages) {
+    if (message.type === "error") {
+      console.warn("DOCX conversion:", message.message);
+    }
+  }
+
+  // Word files have no fixed pagination, so the whole document is one page
+  const { content, pages } = joinPages([htmlToStructuredText(html)]);
+  const title = content.match(/^#\s+(.+)$/m)?.[1];
+
+  return {
+    content,
+    pages,
+    metadata: {
+      title,
+      policyNumber: detectPolicyNumber(content),
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import MsgReader from "@kenjiuno/msgreader";
+import { simpleParser, type AddressObject } from "mailparser";
+import { UnsupportedDocumentError } from "./errors";
+import { htmlToStructuredText } from "./html";
+import { detectPolicyNumber, joinPages } from "./metadata";
+import type { EmailHeaders, ExtractedAttachment, ExtractedDocument, IngestInput } from "./types";
+
+type AttachmentIngester = (attachment: IngestInput) => Promise<ExtractedDocument>;
+
+function formatAddresses(addresses: AddressObject | AddressObject[] | undefined) {
+  if (!addresses) return [];
+  return (Array.isArray(addresses) ? addresses : [addresses])
+    .flatMap((group) => group.value)
+    .map(({ name, address }) => (name && address ? `${name} <${address}>` : name || address || ""))
+    .filter(Boolean);
+}
+
+async function ingestAttachments(files: IngestInput[], ingest: AttachmentIngester) {
+  const attachments: ExtractedAttachment[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    // Read the size first: PDF parsing transfers (and so empties) the buffer
+    const size = file.data.byteLength;
+    try {
+      const document = await ingest(file);
+      attachments.push({ ...document, name: file.name, type: file.type, size });
+    } catch (error) {
+      if (!(error instanceof UnsupportedDocumentError)) {
+        console.warn(`Failed to ingest attachment ${file.name}:`, error);
+      }
+      skipped.push(file.name);
+    }
+  }
+  return { attachments, skipped };
+}
+
+async function buildEmailDocument(
+  headers: EmailHeaders,
+  body: string,
+  files: IngestInput[],
+  ingest: AttachmentIngester
+): Promise<ExtractedDocument> {
+  const { attachments, skipped } = await ingestAttachments(files, ingest);
+  const headerLines = [
+    headers.from && `From: ${headers.from}`,
+    headers.to.length > 0 && `To: ${headers.to.join(", ")}`,
+    headers.cc.length > 0 && `Cc: ${headers.cc.join(", ")}`,
+    headers.date && `Date: ${headers.date}`,
+    headers.subject && `Subject: ${headers.subject}`,
+    attachments.length > 0 && `Attachments: ${attachments.map((attachment) => attachment.name).join(", ")}`,
+    skipped.length > 0 && `Attachments not ingested: ${skipped.join(", ")}`,
+  ].filter(Boolean);
+
+  const { content, pages } = joinPages([`${headerLines.join("\n")}\n\n${body.trim()}`]);
+
+  return {
+    content,
+    pages,
+    metadata: {
+      title: headers.subject,
+      author: headers.from,
+      policyNumber: detectPolicyNumber(content),
+      createdAt: headers.date,
+      email: headers,
+    },
+    attachments,
+  };
+}
+
+export async function extractEml(data: Uint8Array, ingest: AttachmentIngester): Promise<ExtractedDocument> {
+  const mail = await simpleParser(Buffer.from(data));
+  const headers: EmailHeaders = {
+    from: formatAddresses(mail.from)[0],
+    to: formatAddresses(mail.to),
+    cc: formatAddresses(mail.cc),
+    date: mail.date?.toISOString(),
+    subject: mail.subject,
+  };
+  const body = mail.text?.trim() || (mail.html ? htmlToStructuredText(mail.html) : "");
+  const files = mail.attachments
+    // Inline images referenced from the HTML body carry no policy text
+    .filter((attachment) => !(attachment.related && attachment.contentType.startsWith("image/")))
+    .map((attachment, index) => ({
+      name: attachment.filename || `attachment-${index + 1}`,
+      type: attachment.contentType,
+      data: new Uint8Array(attachment.content),
+    }));
+
+  return buildEmailDocument(headers, body, files, ingest);
+}
+
+export async function extractMsg(data: Uint8Array, ingest: AttachmentIngester): Promise<ExtractedDocument> {
+  const reader = new MsgReader(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+  const message = reader.getFileData();
+  if (message.error) {
+    throw new UnsupportedDocumentError(`Could not read Outlook message: ${message.error}`);
+  }
+
+  const recipients = (type: "to" | "cc") =>
+    (message.recipients ?? [])
+      .filter((recipient) => recipient.recipType === type)
+      .map(({ name, email, smtpAddress }) => {
+        const address = smtpAddress || email;
+        return name && address && name !== address ? `${name} <${address}>` : name || address || "";
+      })
+      .filter(Boolean);
+  const sentAt = message.clientSubmitTime || message.messageDeliveryTime;
+  const headers: EmailHeaders = {
+    from: message.senderName && message.senderEmail
+      ? `${message.senderName} <${message.senderEmail}>`
+      : message.senderName || message.senderEmail,
+    to: recipients("to"),
+    cc: recipients("cc"),
+    date: sentAt ? new Date(sentAt).toISOString() : undefined,
+    subject: message.subject,
+  };
+  const body = message.body?.trim() || (message.bodyHtml ? htmlToStructuredText(message.bodyHtml) : "");
+  const files = (message.attachments ?? []).map((attachment, index) => {
+    const { fileName, content } = reader.getAttachment(attachment);
+    const baseName = fileName || attachment.fileName || attachment.name || `attachment-${index + 1}`;
+    const name = attachment.innerMsgContent && !/\.msg$/i.test(baseName) ? `${baseName}.msg` : baseName;
+    return { name, type: attachment.attachMimeTag ?? "", data: content };
+  });
+
+  return buildEmailDocument(headers, body, files, ingest);
+}
@@ -0,0 +1,6 @@
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedDocumentError";
+  }
+}
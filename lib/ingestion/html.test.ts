@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { htmlToStructuredText } from "./html";
+
+describe("htmlToStructuredText", () => {
+  it("renders headings, numbered lists and tables", () => {
+    const text = htmlToStructuredText(
+      "<h1>Policy</h1><ol><li>Cover<ol><li>Hospitalisation</li></ol></li></ol><table><tr><th>Benefit</th><th>Limit</th></tr><tr><td>Room rent</td><td>1%</td></tr></table>"
+    );
+    assert.equal(text, "# Policy\n\n1. Cover\n  1.1. Hospitalisation\n\n| Benefit | Limit |\n| Room rent | 1% |");
+  });
+
+  it("separates paragraphs within a table cell", () => {
+    const text = htmlToStructuredText("<table><tr><td><p>Room rent</p><p>Sub-limit</p></td><td>1%</td></tr></table>");
+    assert.equal(text, "| Room rent Sub-limit | 1% |");
+  });
+
+  it("keeps line breaks within a paragraph", () => {
+    assert.equal(htmlToStructuredText("<p>Line one<br>Line <b>two</b></p>"), "Line one\nLine two");
+  });
+});
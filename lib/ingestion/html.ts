@@ -0,0 +1,135 @@
+import { HTMLElement, Node, NodeType, parse } from "node-html-parser";
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "header", "footer", "blockquote", "pre",
+  "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "table", "tr", "br", "hr",
+]);
+const SKIPPED_TAGS = new Set(["script", "style", "head", "title", "img", "meta", "link"]);
+
+function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function inlineText(node: Node): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return node.text;
+  }
+  if (!(node instanceof HTMLElement)) {
+    return "";
+  }
+  const tag = node.rawTagName?.toLowerCase();
+  if (tag && SKIPPED_TAGS.has(tag)) {
+    return "";
+  }
+  if (tag === "br") {
+    return "\n";
+  }
+  // Blocks inside inline content, such as paragraphs in a table cell, are separate words
+  return node.childNodes
+    .map((child) => {
+      const text = inlineText(child);
+      return child instanceof HTMLElement && BLOCK_TAGS.has(child.rawTagName?.toLowerCase()) ? ` ${text} ` : text;
+    })
+    .join("");
+}
+
+function renderTable(table: HTMLElement) {
+  return table
+    .querySelectorAll("tr")
+    // Nested tables are rendered by their own cells' text
+    .filter((row) => row.closest("table") === table)
+    .map((row) => {
+      const cells = row.childNodes
+        .filter((cell): cell is HTMLElement => cell instanceof HTMLElement && /^t[dh]$/i.test(cell.rawTagName))
+        .map((cell) => normalizeWhitespace(inlineText(cell)));
+      return `| ${cells.join(" | ")} |`;
+    })
+    .join("\n");
+}
+
+function renderList(list: HTMLElement, prefix: string, depth: number): string[] {
+  const ordered = list.rawTagName.toLowerCase() === "ol";
+  let counter = Number(list.getAttribute("start") ?? 1) || 1;
+  const lines: string[] = [];
+
+  for (const item of list.childNodes) {
+    if (!(item instanceof HTMLElement) || item.rawTagName.toLowerCase() !== "li") {
+      continue;
+    }
+    const number = ordered ? `${prefix}${counter++}` : "";
+    const marker = ordered ? `${number}.` : "-";
+    const indent = "  ".repeat(depth);
+    const text = normalizeWhitespace(
+      item.childNodes
+        .filter((child) => !(child instanceof HTMLElement && /^[ou]l$/i.test(child.rawTagName)))
+        .map(inlineText)
+        .join("")
+    );
+    if (text) {
+      lines.push(`${indent}${marker} ${text}`);
+    }
+    for (const child of item.childNodes) {
+      if (child instanceof HTMLElement && /^[ou]l$/i.test(child.rawTagName)) {
+        lines.push(...renderList(child, ordered ? `${number}.` : prefix, depth + 1));
+      }
+    }
+  }
+  return lines;
+}
+
+function renderBlocks(node: HTMLElement, blocks: string[]) {
+  let inline = "";
+  const flush = () => {
+    const text = normalizeWhitespace(inline);
+    if (text) blocks.push(text);
+    inline = "";
+  };
+
+  for (const child of node.childNodes) {
+    if (!(child instanceof HTMLElement)) {
+      inline += inlineText(child);
+      continue;
+    }
+    const tag = child.rawTagName?.toLowerCase();
+    if (tag && SKIPPED_TAGS.has(tag)) {
+      continue;
+    }
+    if (!tag || !BLOCK_TAGS.has(tag)) {
+      inline += inlineText(child);
+      continue;
+    }
+
+    flush();
+    if (/^h[1-6]$/.test(tag)) {
+      const text = normalizeWhitespace(inlineText(child));
+      if (text) blocks.push(`${"#".repeat(Number(tag[1]))} ${text}`);
+    } else if (tag === "ul" || tag === "ol") {
+      const lines = renderList(child, "", 0);
+      if (lines.length > 0) blocks.push(lines.join("\n"));
+    } else if (tag === "table") {
+      const rows = renderTable(child);
+      if (rows) blocks.push(rows);
+    } else if (tag === "p" || tag === "pre") {
+      const text = inlineText(child)
+        .split("\n")
+        .map(normalizeWhitespace)
+        .filter(Boolean)
+        .join("\n");
+      if (text) blocks.push(text);
+    } else if (tag !== "br" && tag !== "hr") {
+      renderBlocks(child, blocks);
+    }
+  }
+  flush();
+}
+
+/**
+ * Converts HTML into plain text that keeps the document's structure:
+ * headings become `#`-prefixed lines, ordered lists carry hierarchical
+ * numbering (4.2.1) and table rows are rendered as `| cell | cell |`.
+ */
+export function htmlToStructuredText(html: string) {
+  const blocks: string[] = [];
+  renderBlocks(parse(html), blocks);
+  return blocks.join("\n\n");
+}
@@ -0,0 +1,109 @@
+import { extractDocx } from "./docx";
+import { extractEml, extractMsg } from "./email";
+import { UnsupportedDocumentError } from "./errors";
+import { detectPolicyNumber, hashContent, joinPages } from "./metadata";
+import { extractImage } from "./ocr";
+import { extractPdf } from "./pdf";
+import { embedTexts } from "@/lib/retrieval/embeddings";
+import { segmentDocument } from "@/lib/segmentation";
+import type { ExtractedDocument, IngestInput, SegmentedDocument } from "./types";
+
+// Emails nested inside emails are expanded, but only this many levels deep
+const MAX_ATTACHMENT_DEPTH = 3;
+
+const PLAIN_TEXT_EXTENSIONS = new Set(["txt", "text", "md", "csv"]);
+const IMAGE_EXTENSIONS = new Set(["png", "jpg", "jpeg", "tif", "tiff"]);
+
+export function getExtension(name: string) {
+  const index = name.lastIndexOf(".");
+  return index === -1 ? "" : name.slice(index + 1).toLowerCase();
+}
+
+function extractPlainText(data: Uint8Array): ExtractedDocument {
+  const { content, pages } = joinPages([new TextDecoder().decode(data)]);
+  return {
+    content,
+    pages,
+    metadata: { policyNumber: detectPolicyNumber(content), pageCount: 1 },
+  };
+}
+
+export async function ingestFile(input: IngestInput, depth = 0): Promise<ExtractedDocument> {
+  const { name, type, data } = input;
+  const extension = getExtension(name);
+  const ingestAttachment = (attachment: IngestInput) => {
+    if (depth >= MAX_ATTACHMENT_DEPTH) {
+      throw new UnsupportedDocumentError(`Attachments nested deeper than ${MAX_ATTACHMENT_DEPTH} levels are not expanded.`);
+    }
+    return ingestFile(attachment, depth + 1);
+  };
+
+  if (type === "application/pdf" || extension === "pdf") {
+    return extractPdf(data);
+  }
+  if (extension === "docx") {
+    return extractDocx(data);
+  }
+  if (type === "message/rfc822" || extension === "eml") {
+    return extractEml(data, ingestAttachment);
+  }
+  if (type === "application/vnd.ms-outlook" || extension === "msg") {
+    return extractMsg(data, ingestAttachment);
+  }
+  if (IMAGE_EXTENSIONS.has(extension) || /^image\/(png|jpeg|tiff)$/.test(type)) {
+    return extractImage(data, type === "image/tiff" || extension === "tif" || extension === "tiff");
+  }
+  if (extension === "doc") {
+    throw new UnsupportedDocumentError("Legacy .doc files are not supported; save the file as .docx and upload it again.");
+  }
+  if (type.startsWith("text/") || PLAIN_TEXT_EXTENSIONS.has(extension)) {
+    return extractPlainText(data);
+  }
+  throw new UnsupportedDocumentError(`${name} is not a supported document type.`);
+}
+
+/**
+ * Segments an extracted document and its attachments. Attachment IDs are
+ * derived from the parent's so chunk and clause IDs stay stable.
+ */
+export function segmentExtracted(id: string, extracted: ExtractedDocument): SegmentedDocument {
+  const { attachments, ...document } = extracted;
+  return {
+    ...document,
+    id,
+    contentHash: hashContent(document.content),
+    ...segmentDocument(id, document.content, document.pages),
+    attachments: attachments?.map((attachment, index) => ({
+      ...segmentExtracted(`${id}_att${index + 1}`, attachment),
+      name: attachment.name,
+      type: attachment.type,
+      size: attachment.size,
+    })),
+  };
+}
+
+/**
+ * Adds embeddings to the chunks of a segmented document and its attachments.
+ * Documents are returned unchanged when the embedding model is unavailable.
+ */
+export async function embedSegmented<T extends SegmentedDocument>(document: T): Promise<T> {
+  const vectors = await embedTexts(document.chunks.map((chunk) => chunk.text));
+  const attachments = document.attachments && (await Promise.all(document.attachments.map(embedSegmented)));
+
+  return {
+    ...document,
+    chunks: vectors ? document.chunks.map((chunk, index) => ({ ...chunk, embedding: vectors[index] })) : document.chunks,
+    attachments,
+  };
+}
+
+export { UnsupportedDocumentError } from "./errors";
+export type {
+  DocumentMetadata,
+  DocumentPage,
+  ExtractedAttachment,
+  ExtractedDocument,
+  IngestInput,
+  SegmentedAttachment,
+  SegmentedDocument,
+} from "./types";
@@ -0,0 +1,33 @@
+import { createHash } from "node:crypto";
+
+const POLICY_NUMBER_PATTERN =
+  /policy\s*(?:no\.?|number|#)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-]{4,})/i;
+
+export function detectPolicyNumber(text: string): string | undefined {
+  const match = text.match(POLICY_NUMBER_PATTERN);
+  return match ? match[1].replace(/[\/\-]+$/, "") : undefined;
+}
+
+/**
+ * Fingerprints extracted text for duplicate detection. Whitespace is
+ * collapsed so the same wording extracted with different line breaks
+ * (a re-exported PDF, a DOCX copy) hashes the same.
+ */
+export function hashContent(content: string) {
+  return createHash("sha256").update(content.replace(/\s+/g, " ").trim()).digest("hex");
+}
+
+/**
+ * Joins page texts into a single content string, recording where each page
+ * starts so page numbers can be recovered from character offsets later.
+ */
+export function joinPages(texts: string[]) {
+  let content = "";
+  const pages = texts.map((text, index) => {
+    if (index > 0) content += "\n\n";
+    const page = { number: index + 1, text, offset: content.length };
+    content += text;
+    return page;
+  });
+  return { content, pages };
+}
@@ -0,0 +1,74 @@
+import path from "path";
+import { createCanvas, ImageData } from "@napi-rs/canvas";
+import { createWorker, OEM } from "tesseract.js";
+import * as UTIF from "utif2";
+import { detectPolicyNumber, joinPages } from "./metadata";
+import type { ExtractedDocument } from "./types";
+
+export interface OcrResult {
+  text: string;
+  // Tesseract's mean word confidence, scaled to 0..1
+  confidence: number;
+}
+
+// Trained data ships with @tesseract.js-data/eng so recognition never leaves the machine
+const LANG_PATH =
+  process.env.OCR_LANG_PATH ?? path.join(process.cwd(), "node_modules", "@tesseract.js-data", "eng", "4.0.0");
+
+/**
+ * Runs OCR over a list of encoded images (PNG/JPEG) with a single worker,
+ * returning one result per image in order.
+ */
+export async function recognizeImages(images: Uint8Array[]): Promise<OcrResult[]> {
+  if (images.length === 0) {
+    return [];
+  }
+
+  const worker = await createWorker(process.env.OCR_LANGUAGE ?? "eng", OEM.LSTM_ONLY, {
+    langPath: LANG_PATH,
+    cacheMethod: "none",
+  });
+
+  try {
+    const results: OcrResult[] = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(Buffer.from(image));
+      results.push({ text: data.text.trim(), confidence: data.confidence / 100 });
+    }
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+// Tesseract cannot read TIFF directly, so each TIFF page is re-encoded as PNG
+function decodeTiffPages(data: Uint8Array) {
+  const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  const pages: Uint8Array[] = [];
+
+  for (const ifd of UTIF.decode(buffer)) {
+    UTIF.decodeImage(buffer, ifd);
+    if (!ifd.width || !ifd.height) continue;
+
+    const canvas = createCanvas(ifd.width, ifd.height);
+    const rgba = new Uint8ClampedArray(UTIF.toRGBA8(ifd));
+    canvas.getContext("2d").putImageData(new ImageData(rgba, ifd.width, ifd.height), 0, 0);
+    pages.push(canvas.toBuffer("image/png"));
+  }
+  return pages;
+}
+
+export async function extractImage(data: Uint8Array, isTiff: boolean): Promise<ExtractedDocument> {
+  const results = await recognizeImages(isTiff ? decodeTiffPages(data) : [data]);
+  const { content, pages } = joinPages(results.map((result) => result.text));
+
+  return {
+    content,
+    pages: pages.map((page, index) => ({ ...page, ocrConfidence: results[index].confidence })),
+    metadata: {
+      policyNumber: detectPolicyNumber(content),
+      pageCount: pages.length,
+      ocr: true,
+    },
+  };
+}
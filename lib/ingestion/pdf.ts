@@ -0,0 +1,64 @@
+import { extractText, getDocumentProxy, getMeta, renderPageAsImage } from "unpdf";
+import { detectPolicyNumber, joinPages } from "./metadata";
+import { recognizeImages } from "./ocr";
+import type { ExtractedDocument } from "./types";
+
+// Pages with less text than this are treated as scans without a text layer
+const MIN_TEXT_LAYER_CHARS = 20;
+const OCR_RENDER_SCALE = 2;
+
+function readInfoString(info: Record<string, unknown>, key: string) {
+  const value = info[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export async function extractPdf(data: Uint8Array): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(data);
+
+  try {
+    const { totalPages, text } = await extractText(pdf, { mergePages: false });
+    const { info } = await getMeta(pdf, { parseDates: true });
+    const pageTexts = text.map((page) => page.trim());
+
+    const scannedPages = pageTexts
+      .map((page, index) => (page.replace(/\s/g, "").length < MIN_TEXT_LAYER_CHARS ? index : -1))
+      .filter((index) => index !== -1);
+    const images = await Promise.all(
+      scannedPages.map(async (index) =>
+        new Uint8Array(
+          await renderPageAsImage(pdf, index + 1, {
+            canvasImport: () => import("@napi-rs/canvas"),
+            scale: OCR_RENDER_SCALE,
+          })
+        )
+      )
+    );
+    const ocrResults = await recognizeImages(images);
+    const ocrConfidence = new Map<number, number>();
+    scannedPages.forEach((pageIndex, i) => {
+      pageTexts[pageIndex] = ocrResults[i].text;
+      ocrConfidence.set(pageIndex, ocrResults[i].confidence);
+    });
+
+    const { content, pages } = joinPages(pageTexts);
+    const createdAt = info.CreationDate instanceof Date ? info.CreationDate : undefined;
+
+    return {
+      content,
+      pages: pages.map((page, index) =>
+        ocrConfidence.has(index) ? { ...page, ocrConfidence: ocrConfidence.get(index) } : page
+      ),
+      metadata: {
+        title: readInfoString(info, "Title"),
+        author: readInfoString(info, "Author"),
+        subject: readInfoString(info, "Subject"),
+        policyNumber: detectPolicyNumber(content),
+        pageCount: totalPages,
+        createdAt: createdAt && !isNaN(createdAt.getTime()) ? createdAt.toISOString() : undefined,
+        ocr: scannedPages.length > 0 || undefined,
+      },
+    };
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
@@ -0,0 +1,64 @@
+import type { DocumentChunk, DocumentClause } from "@/lib/segmentation";
+
+export interface IngestInput {
+  name: string;
+  type: string;
+  data: Uint8Array;
+}
+
+export interface DocumentPage {
+  number: number;
+  text: string;
+  // Character offset of this page within the document's joined content
+  offset: number;
+  // Present when the page text came from OCR (0..1)
+  ocrConfidence?: number;
+}
+
+export interface EmailHeaders {
+  from?: string;
+  to: string[];
+  cc: string[];
+  date?: string;
+  subject?: string;
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  policyNumber?: string;
+  pageCount?: number;
+  createdAt?: string;
+  email?: EmailHeaders;
+  // True when any page's text was recognized by OCR
+  ocr?: boolean;
+}
+
+export interface ExtractedDocument {
+  content: string;
+  pages: DocumentPage[];
+  metadata: DocumentMetadata;
+  attachments?: ExtractedAttachment[];
+}
+
+export interface ExtractedAttachment extends ExtractedDocument {
+  name: string;
+  type: string;
+  size: number;
+}
+
+// An extracted document after segmentation, as returned by the ingest API
+export interface SegmentedDocument extends Omit<ExtractedDocument, "attachments"> {
+  id: string;
+  contentHash: string;
+  chunks: DocumentChunk[];
+  clauses: DocumentClause[];
+  attachments?: SegmentedAttachment[];
+}
+
+export interface SegmentedAttachment extends SegmentedDocument {
+  name: string;
+  type: string;
+  size: number;
+}
@@ -0,0 +1,6 @@
+export class InvalidDecisionError extends Error {
+  constructor(message: string, readonly text?: string) {
+    super(message);
+    this.name = "InvalidDecisionError";
+  }
+}
@@ -0,0 +1,31 @@
+import { generateText, Output, type LanguageModel } from "ai";
+import { claimProfileSchema, parseClaimProfile, type ClaimProfile } from "@/lib/claim-profile";
+
+export type ClaimProfileSource = "model" | "heuristic";
+
+const systemPrompt = `You extract structured claim details from insurance queries.
+Return only fields stated or clearly implied by the query; omit anything unknown.
+Convert policy durations to months (e.g. "2 years" is 24). Gender is male, female or other.`;
+
+/**
+ * Parses a query into a claim profile with the model, falling back to the
+ * deterministic parser when the model fails or returns an invalid profile.
+ */
+export async function generateClaimProfile(
+  model: LanguageModel,
+  query: string
+): Promise<{ profile: ClaimProfile; source: ClaimProfileSource }> {
+  try {
+    const { output } = await generateText({
+      model,
+      system: systemPrompt,
+      prompt: `User Query: ${query}`,
+      maxOutputTokens: 500,
+      output: Output.object({ schema: claimProfileSchema, name: "claim_profile" }),
+    });
+    return { profile: output, source: "model" };
+  } catch (error) {
+    console.warn("Claim profile parsing fell back to heuristics:", error instanceof Error ? error.message : error);
+    return { profile: parseClaimProfile(query), source: "heuristic" };
+  }
+}
@@ -0,0 +1,153 @@
+import { generateText, NoObjectGeneratedError, Output, streamText, type LanguageModel } from "ai";
+import { decisionSchema, type PartialProcessingResult, type ProcessingResult } from "@/lib/decision";
+import { InvalidDecisionError } from "./errors";
+
+const MAX_ATTEMPTS = 2;
+
+interface GenerateDecisionOptions {
+  model: LanguageModel;
+  system: string;
+  prompt: string;
+  maxOutputTokens: number;
+}
+
+interface InvalidOutput {
+  text?: string;
+  error: string;
+}
+
+const DECISIONS: Record<string, ProcessingResult["Decision"]> = {
+  approved: "Approved",
+  rejected: "Rejected",
+  denied: "Rejected",
+  "needs clarification": "Needs Clarification",
+  "needs_clarification": "Needs Clarification",
+};
+
+/**
+ * Best-effort repair of near-miss model output: code fences, text around
+ * the JSON, trailing commas, "85%" confidences and lower-case decisions.
+ */
+export function repairDecision(text: string) {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1"));
+  } catch {
+    return null;
+  }
+
+  const confidence = raw.Confidence;
+  if (typeof confidence === "string" && confidence.trim().endsWith("%")) {
+    raw.Confidence = parseFloat(confidence) / 100;
+  } else if (typeof confidence === "number" && confidence > 1 && confidence <= 100) {
+    raw.Confidence = confidence / 100;
+  }
+  if (typeof raw.Decision === "string") {
+    raw.Decision = DECISIONS[raw.Decision.trim().toLowerCase()] ?? raw.Decision;
+  }
+  raw.Clause_References ??= [];
+  for (const key of ["Amount", "Missing", "Suggested_Follow_up", "Extracted_Fields"]) {
+    if (raw[key] === null) delete raw[key];
+  }
+  const fields = raw.Extracted_Fields;
+  if (fields && typeof fields === "object") {
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === null) delete (fields as Record<string, unknown>)[key];
+    }
+  }
+
+  const parsed = decisionSchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
+
+function retryPrompt(prompt: string, invalid: InvalidOutput) {
+  return `${prompt}\n\nYour previous response was not valid against the required JSON schema (${invalid.error}). Previous response:\n${invalid.text}\n\nReturn only corrected JSON.`;
+}
+
+// Validation errors are passed back to the model on retry, so they are kept short
+function describeInvalidOutput(error: NoObjectGeneratedError): InvalidOutput {
+  return {
+    text: error.text,
+    error: error.cause instanceof Error ? error.cause.message.slice(0, 500) : error.message,
+  };
+}
+
+/**
+ * Asks the model for a decision in structured-output mode. Output that
+ * fails validation is repaired where possible, otherwise the model is asked
+ * again with the validation error; after that the call fails rather than
+ * returning an invented decision.
+ */
+export async function generateDecision(
+  { model, system, prompt, maxOutputTokens }: GenerateDecisionOptions,
+  previous?: InvalidOutput
+) {
+  let invalid = previous;
+  const attempts = previous ? MAX_ATTEMPTS - 1 : MAX_ATTEMPTS;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      const { output } = await generateText({
+        model,
+        system,
+        prompt: invalid ? retryPrompt(prompt, invalid) : prompt,
+        maxOutputTokens,
+        output: Output.object({ schema: decisionSchema, name: "insurance_decision" }),
+      });
+      return output;
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error)) throw error;
+
+      const repaired = error.text ? repairDecision(error.text) : null;
+      if (repaired) return repaired;
+
+      invalid = describeInvalidOutput(error);
+      console.warn(`Decision output invalid (attempt ${attempt}/${attempts}):`, invalid.error);
+    }
+  }
+  throw new InvalidDecisionError("The model did not return a valid decision.", invalid?.text);
+}
+
+export type DecisionStreamEvent =
+  | { type: "partial"; result: PartialProcessingResult }
+  | { type: "final"; result: ProcessingResult };
+
+/**
+ * Streaming counterpart of generateDecision: yields the decision as it is
+ * generated, then the validated result. Invalid streamed output goes through
+ * the same repair and retry path, without streaming the retry.
+ */
+export async function* streamDecision(options: GenerateDecisionOptions): AsyncGenerator<DecisionStreamEvent> {
+  const { model, system, prompt, maxOutputTokens } = options;
+  const result = streamText({
+    model,
+    system,
+    prompt,
+    maxOutputTokens,
+    output: Output.object({ schema: decisionSchema, name: "insurance_decision" }),
+    onError: () => {},
+  });
+
+  for await (const partial of result.partialOutputStream) {
+    yield { type: "partial", result: partial };
+  }
+
+  try {
+    yield { type: "final", result: await result.output };
+  } catch (error) {
+    if (!NoObjectGeneratedError.isInstance(error)) throw error;
+
+    const repaired = error.text ? repairDecision(error.text) : null;
+    if (repaired) {
+      yield { type: "final", result: repaired };
+      return;
+    }
+    const invalid = describeInvalidOutput(error);
+    console.warn(`Decision output invalid (attempt 1/${MAX_ATTEMPTS}):`, invalid.error);
+    yield { type: "final", result: await generateDecision(options, invalid) };
+  }
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generateText, streamText } from "ai";
+import { createMockModel, mockDecision } from "./mock";
+
+function callWith(prompt: string) {
+  return { prompt: [{ role: "user" as const, content: [{ type: "text" as const, text: prompt }] }] };
+}
+
+describe("mockDecision", () => {
+  it("answers a fixture query whatever its case and spacing", () => {
+    const decision = mockDecision(callWith("User Query: 46-YEAR-OLD male,  knee surgery in Pune, 3-month-old insurance policy"));
+    assert.equal(decision.Decision, "Rejected");
+  });
+
+  it("answers keyword fixtures when every keyword appears", () => {
+    const decision = mockDecision(callWith("User Query: Is my Pre-Existing diabetes covered?"));
+    assert.equal(decision.Decision, "Needs Clarification");
+    assert.match(String(decision.Justification), /Pre-existing conditions/);
+  });
+
+  it("falls back to asking for clarification without a matching fixture", () => {
+    const decision = mockDecision(callWith("User Query: something no fixture mentions"));
+    assert.equal(decision.Justification, "The mock provider has no fixture for this query.");
+  });
+
+  it("answers a follow-up turn from its own fixture rather than the thread's", () => {
+    const decision = mockDecision(callWith(
+      "User Query: Female, 35 years, maternity coverage, HDFC Ergo policy 2 years, normal delivery\nFollow-up Answer: 2 years, normal delivery"
+    ));
+    assert.equal(decision.Decision, "Approved");
+  });
+
+  it("falls back to the whole thread when the follow-up matches no fixture", () => {
+    const decision = mockDecision(callWith("User Query: Is my pre-existing asthma covered? yes\nFollow-up Answer: yes"));
+    assert.match(String(decision.Justification), /Pre-existing conditions/);
+  });
+
+  it("cites the first retrieved excerpt", () => {
+    const decision = mockDecision(callWith("Document: policy.pdf\n[Page 4]\n4.2 Waiting periods apply to all planned surgery.\n\nUser Query: knee"));
+    assert.deepEqual(decision.Clause_References, [{
+      Document: "policy.pdf",
+      Clause_Snippet: "4.2 Waiting periods apply to all planned surgery.",
+      Page: "4",
+      Matched_Concept: "Retrieved clause",
+    }]);
+  });
+});
+
+describe("createMockModel", () => {
+  it("generates the fixture decision as JSON", async () => {
+    const { text } = await generateText({
+      model: createMockModel("fixtures"),
+      prompt: "User Query: emergency ICU admission",
+    });
+    assert.equal(JSON.parse(text).Decision, "Approved");
+  });
+
+  it("streams the same decision in pieces", async () => {
+    const result = streamText({ model: createMockModel("fixtures"), prompt: "User Query: emergency ICU admission" });
+    let text = "";
+    for await (const delta of result.textStream) text += delta;
+    assert.equal(JSON.parse(text).Decision, "Approved");
+  });
+});
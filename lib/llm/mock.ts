@@ -0,0 +1,138 @@
+import type { LanguageModel } from "ai";
+import { parseClaimProfile } from "@/lib/claim-profile";
+import fixtures from "./mock-fixtures.json";
+
+interface MockFixture {
+  // Matches when the normalized query equals this text
+  query?: string;
+  // Matches when every keyword appears in the query
+  keywords?: string[];
+  response: Record<string, unknown>;
+}
+
+// The provider interface generateText and streamText call into, implemented directly so
+// the mock doesn't pull the ai/test entry point into production code
+type LanguageModelV4 = Extract<LanguageModel, { specificationVersion: "v4" }>;
+type CallOptions = Parameters<LanguageModelV4["doGenerate"]>[0];
+
+const DEFAULT_RESPONSE = {
+  Decision: "Needs Clarification",
+  Justification: "The mock provider has no fixture for this query.",
+  Missing: ["Exact Procedure Name", "Policy Duration"],
+  Suggested_Follow_up: "Please specify the procedure and how long the policy has been active.",
+  Confidence: 0.5,
+};
+
+const USAGE = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 0, text: 0, reasoning: 0 },
+};
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function promptText(options: CallOptions) {
+  return options.prompt
+    .filter((message) => message.role === "user")
+    .flatMap((message) => message.content)
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("\n");
+}
+
+function findFixture(query: string) {
+  const normalized = normalize(query);
+  return (fixtures as MockFixture[]).find((fixture) =>
+    fixture.query
+      ? normalize(fixture.query) === normalized
+      : (fixture.keywords ?? []).every((keyword) => normalized.includes(normalize(keyword)))
+  );
+}
+
+// In a clarification thread the "User Query:" line joins every turn, and the latest
+// turn is repeated on its own as the "Follow-up Answer:"
+function queryLines(prompt: string) {
+  return {
+    query: prompt.match(/User Query: (.+)/)?.[1],
+    followUp: prompt.match(/Follow-up Answer: (.+)/)?.[1],
+  };
+}
+
+// Cites the first retrieved excerpt so references point at real uploaded text
+function referencesFromContext(prompt: string) {
+  const match = prompt.match(/Document: (.+)\n(?:(?:Attachment of|Policy Number): .+\n)*(?:\[Page (\d+)\]\n)?((?:.+\n?){1,5})/);
+  if (!match) return [];
+  // The longest of the excerpt's first lines is usually clause text rather than a heading
+  const snippet = match[3].split("\n").reduce((longest, line) => (line.length > longest.length ? line : longest), "");
+  return [{
+    Document: match[1].trim(),
+    Clause_Snippet: snippet.trim().slice(0, 200),
+    Page: match[2] ?? "1",
+    Matched_Concept: "Retrieved clause",
+  }];
+}
+
+/**
+ * Builds the decision JSON for a call. Fixtures are matched against the
+ * latest user turn of the prompt built by the process-document route, so
+ * a follow-up answer can resolve a thread, and then against the whole thread.
+ */
+export function mockDecision(options: CallOptions): Record<string, unknown> {
+  const prompt = promptText(options);
+  const { query, followUp } = queryLines(prompt);
+  const fixture = (followUp ? findFixture(followUp) : undefined) ?? findFixture(query ?? prompt);
+  const response = fixture?.response ?? DEFAULT_RESPONSE;
+
+  return {
+    Clause_References: referencesFromContext(prompt),
+    ...response,
+  };
+}
+
+// Claim profile requests are answered by the deterministic parser rather than fixtures
+function mockResponse(options: CallOptions) {
+  if (options.responseFormat?.type === "json" && options.responseFormat.name === "claim_profile") {
+    const { query, followUp } = queryLines(promptText(options));
+    // As in prepareDecisionPrompt, a follow-up answer overrides what the rest of the thread says
+    return { ...parseClaimProfile(query ?? ""), ...(followUp ? parseClaimProfile(followUp) : {}) };
+  }
+  return mockDecision(options);
+}
+
+/**
+ * Deterministic offline model that answers from fixtures keyed on query
+ * text, for development and tests without network access or API keys.
+ */
+export function createMockModel(modelId: string): LanguageModelV4 {
+  return {
+    specificationVersion: "v4",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async (options) => ({
+      content: [{ type: "text", text: JSON.stringify(mockResponse(options)) }],
+      finishReason: { unified: "stop", raw: "stop" },
+      usage: USAGE,
+      warnings: [],
+    }),
+    doStream: async (options) => {
+      const text = JSON.stringify(mockResponse(options));
+      const deltas = text.match(/[\s\S]{1,24}/g) ?? [];
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({ type: "text-start", id: "0" });
+            for (const delta of deltas) {
+              controller.enqueue({ type: "text-delta", id: "0", delta });
+            }
+            controller.enqueue({ type: "text-end", id: "0" });
+            controller.enqueue({ type: "finish", finishReason: { unified: "stop", raw: "stop" }, usage: USAGE });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { formatClaimProfile, parseClaimProfile, type ClaimProfile } from "@/lib/claim-profile";
+import { mergeExtractedFields, type ClarificationTurn } from "@/lib/decision";
+import {
+  DEFAULT_RETRIEVAL_OPTIONS,
+  formatRetrievedContext,
+  retrieveChunks,
+  type ChunkEmbedding,
+  type RetrievalDocument,
+  type RetrievalMethod,
+} from "@/lib/retrieval";
+import { embedQuery, embedTexts } from "@/lib/retrieval/embeddings";
+import { evaluateRules, extractPolicyParameters, formatRuleOutcomes } from "@/lib/rules";
+
+// How the excerpts in the prompt were chosen, as retrieveChunks reports it
+const RETRIEVAL_DESCRIPTIONS: Record<RetrievalMethod, string> = {
+  vector: "The excerpts provided were selected by semantic search over Sentence-BERT embeddings of every document chunk.",
+  hybrid: "The excerpts provided were selected by combining BM25 keyword ranking with semantic search over Sentence-BERT embeddings of every document chunk.",
+  lexical: "The excerpts provided were selected by BM25 keyword ranking, so clauses worded differently from the query may be missing.",
+};
+
+/** The system prompt for a decision, describing how its excerpts were retrieved. */
+function decisionSystemPrompt(method: RetrievalMethod) {
+  return `You are a powerful Document Reasoning Engine designed to answer natural language insurance-related queries using clause-based reasoning from unstructured documents (PDFs, Word files, emails). You support customers, agents, and auditors in evaluating coverage decisions, claim eligibility, or policy interpretation.
+
+You must:
+
+1. Parse and extract structured data from the input query
+Identify key fields from natural language queries such as:
+- Age
+- Gender
+- Medical procedure
+- Location
+- Insurance provider
+- Policy duration
+- Any constraints (e.g., co-payment, exclusions, pre-existing conditions)
+Rule Checks, when provided, were computed in code from the policy's waiting periods, age limits, room-rent caps and co-pays; use their arithmetic rather than redoing it, and apply any co-pay or cap to the Amount.
+A Claim Profile, when provided, was reviewed and corrected by the user; treat its fields as authoritative unless a follow-up answer corrects them.
+When the query continues a clarification thread, start from the Known Fields and apply the user's follow-up answer, which takes precedence where they conflict.
+
+2. Reason over the retrieved excerpts
+${RETRIEVAL_DESCRIPTIONS[method]}
+Match meaning, not just keywords (e.g., "knee surgery" ≈ "orthopedic procedure").
+
+3. Conduct clause-level reasoning
+Retrieve relevant clauses.
+Interpret conditions, exclusions, time-bound limitations.
+Resolve conflicts between documents or clauses.
+Apply logic (e.g., waiting period, location-based exclusions, claim timelines).
+
+4. Generate an output with full transparency
+Return a structured JSON containing:
+{
+  "Decision": "Approved | Rejected | Needs Clarification",
+  "Amount": "<Payout amount or limit, if any>",
+  "Justification": "<Summary of reasoning>",
+  "Clause_References": [
+    {
+      "Document": "<Filename or policy number>",
+      "Clause_Snippet": "<Exact clause used>",
+      "Page": "<Page number from the [Page N] marker preceding the clause>",
+      "Matched_Concept": "<E.g., waiting period, covered treatment>"
+    }
+  ],
+  "Confidence": "<0 to 1 score based on clause match strength>",
+  "Extracted_Fields": {
+    "Age": "<Age>",
+    "Gender": "<Gender>",
+    "Procedure": "<Medical procedure>",
+    "Location": "<Location>",
+    "Insurance_Provider": "<Insurance provider>",
+    "Policy_Duration": "<Policy duration>",
+    "Constraints": ["<Any constraints>"]
+  }
+}
+Omit Extracted_Fields entries that are not known.
+
+If input query is incomplete, respond with "Decision": "Needs Clarification" and still include Justification, Clause_References and Confidence, adding:
+{
+  "Missing": ["Policy Provider", "Exact Procedure Name"],
+  "Suggested_Follow_up": "Please confirm if it's Bajaj Allianz or HDFC Ergo. Also specify if it's arthroscopic or open knee surgery."
+}
+
+Confidence must be a number between 0 and 1, not a percentage.
+State Amount with its currency and basis, e.g. "₹50,000", "Up to ₹2,00,000" or "₹5,000 per day".
+
+Document text is split into pages with [Page N] markers; cite the page a clause appears on rather than estimating it.
+
+Always return valid JSON format. Be thorough in your analysis and provide specific clause references when possible.`;
+}
+
+// Chunks stored without embeddings (ingested before embeddings existed, or while the model
+// was unavailable) are embedded here. The caller's documents are left as they are: copies
+// carrying the vectors are returned for retrieval, and the vectors alone for the caller to store
+async function embedMissingChunks(documents: RetrievalDocument[]) {
+  const missing = documents.flatMap((document) =>
+    document.chunks.filter((chunk) => !chunk.embedding).map((chunk) => ({ document, chunk }))
+  );
+  const vectors = missing.length > 0 ? await embedTexts(missing.map(({ chunk }) => chunk.text)) : null;
+  if (!vectors) return { documents, embeddedChunks: [] };
+
+  const embeddedChunks: ChunkEmbedding[] = missing.map(({ document, chunk }, index) => ({
+    documentId: document.id,
+    chunkId: chunk.id,
+    embedding: vectors[index],
+  }));
+  const byChunk = new Map(missing.map(({ chunk }, index) => [chunk, vectors[index]]));
+  return {
+    documents: documents.map((document) => ({
+      ...document,
+      chunks: document.chunks.map((chunk) => (byChunk.has(chunk) ? { ...chunk, embedding: byChunk.get(chunk) } : chunk)),
+    })),
+    embeddedChunks,
+  };
+}
+
+interface DecisionPromptOptions {
+  history?: ClarificationTurn[];
+  claimProfile?: ClaimProfile;
+}
+
+// Earlier turns of a clarification thread, so the model can see what it already asked
+function formatThread(history: ClarificationTurn[]) {
+  const turns = history.map((turn) => {
+    const asked = turn.result.Suggested_Follow_up ? ` Asked: ${turn.result.Suggested_Follow_up}` : "";
+    return `User: ${turn.query}\nAssistant (${turn.result.Decision}): ${turn.result.Justification}${asked}`;
+  });
+  const knownFields = mergeExtractedFields(history.map((turn) => turn.result.Extracted_Fields));
+
+  return `Conversation So Far:
+${turns.join("\n")}
+
+Known Fields:
+${JSON.stringify(knownFields, null, 2)}
+`;
+}
+
+/**
+ * Retrieves the chunks relevant to a query and builds the system prompt
+ * and the user prompt, with the rule checks for the claim.
+ * For a follow-up answer, retrieval and the query line cover the whole
+ * thread, not just the latest reply.
+ */
+export async function prepareDecisionPrompt(
+  query: string,
+  documents: RetrievalDocument[],
+  { history = [], claimProfile }: DecisionPromptOptions = {}
+) {
+  const threadQuery = [...history.map((turn) => turn.query), query].join(" ");
+
+  // The reviewed profile is authoritative; the parser only fills the fields it leaves empty,
+  // preferring what a follow-up answer says over the rest of the thread
+  const profile = {
+    ...parseClaimProfile(threadQuery),
+    ...(history.length > 0 ? parseClaimProfile(query) : {}),
+    ...claimProfile,
+  };
+  const rules = evaluateRules(profile, extractPolicyParameters(documents));
+
+  // Only the most relevant chunks are sent, keeping the prompt within the context window
+  const queryEmbedding = await embedQuery(threadQuery);
+  const { documents: embeddedDocuments, embeddedChunks } = queryEmbedding
+    ? await embedMissingChunks(documents)
+    : { documents, embeddedChunks: [] };
+  const retrievedChunks = retrieveChunks(threadQuery, embeddedDocuments, { ...DEFAULT_RETRIEVAL_OPTIONS, queryEmbedding });
+
+  const prompt = `${history.length > 0 ? `\n${formatThread(history)}` : ""}
+User Query: ${threadQuery}
+${history.length > 0 ? `Follow-up Answer: ${query}\n` : ""}${claimProfile ? `Claim Profile: ${formatClaimProfile(claimProfile)}\n` : ""}${rules.outcomes.length > 0 ? `\nRule Checks:\n${formatRuleOutcomes(rules)}\n` : ""}
+Relevant Document Excerpts:
+${formatRetrievedContext(retrievedChunks, documents)}
+
+Please analyze the query against the provided documents and return a structured JSON response following the specified format. Focus on insurance policy analysis, coverage decisions, and clause-based reasoning.
+`;
+
+  const system = decisionSystemPrompt(retrievedChunks[0]?.method ?? "lexical");
+  return { system, prompt, retrievedChunks, rules, embeddedChunks };
+}
@@ -0,0 +1,70 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { openai } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { xai } from "@ai-sdk/xai";
+import type { LanguageModel } from "ai";
+import { createMockModel } from "./mock";
+
+export type LlmProviderName = "xai" | "openai" | "anthropic" | "openai-compatible" | "mock";
+
+export interface ModelInfo {
+  provider: LlmProviderName;
+  modelId: string;
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  xai: "grok-3",
+  openai: "gpt-4o",
+  anthropic: "claude-sonnet-4-0",
+  // Ollama / LM Studio / vLLM serve whatever model was pulled; this is Ollama's common default
+  "openai-compatible": "llama3.1",
+  mock: "fixtures",
+};
+
+function isProviderName(name: string): name is LlmProviderName {
+  return Object.hasOwn(DEFAULT_MODELS, name);
+}
+
+/**
+ * Resolves the model to use from the environment:
+ *
+ * - LLM_PROVIDER: xai (default), openai, anthropic, openai-compatible, or
+ *   mock for offline development against lib/llm/mock-fixtures.json
+ * - LLM_MODEL: model ID, defaulting per provider
+ * - LLM_BASE_URL / LLM_API_KEY: endpoint and key for openai-compatible
+ *   servers, e.g. http://localhost:11434/v1 for a local Ollama
+ *
+ * Provider API keys are read by each SDK from its usual variable
+ * (XAI_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY).
+ */
+export function getModelInfo(): ModelInfo {
+  const provider = (process.env.LLM_PROVIDER ?? "xai").toLowerCase();
+  if (!isProviderName(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"; expected one of ${Object.keys(DEFAULT_MODELS).join(", ")}`);
+  }
+  return { provider, modelId: process.env.LLM_MODEL || DEFAULT_MODELS[provider] };
+}
+
+export function getLanguageModel(info: ModelInfo = getModelInfo()): LanguageModel {
+  switch (info.provider) {
+    case "xai":
+      return xai(info.modelId);
+    case "openai":
+      return openai(info.modelId);
+    case "anthropic":
+      return anthropic(info.modelId);
+    case "openai-compatible": {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error("LLM_BASE_URL is required when LLM_PROVIDER is openai-compatible");
+      }
+      return createOpenAICompatible({
+        name: "local",
+        baseURL,
+        apiKey: process.env.LLM_API_KEY,
+      })(info.modelId);
+    }
+    case "mock":
+      return createMockModel(info.modelId);
+  }
+}
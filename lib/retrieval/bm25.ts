@@ -0,0 +1,36 @@
+export interface WeightedTerm {
+  term: string;
+  weight: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Scores tokenized chunks against weighted query terms with Okapi BM25.
+ * Returns one score per chunk, in input order.
+ */
+export function scoreBm25(queryTerms: WeightedTerm[], chunkTerms: string[][]) {
+  const averageLength = chunkTerms.reduce((acc, terms) => acc + terms.length, 0) / (chunkTerms.length || 1);
+  const documentFrequency = new Map<string, number>();
+  for (const terms of chunkTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return chunkTerms.map((terms) => {
+    const counts = new Map<string, number>();
+    for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+
+    let score = 0;
+    for (const { term, weight } of queryTerms) {
+      const tf = counts.get(term);
+      if (!tf) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (chunkTerms.length - df + 0.5) / (df + 0.5));
+      score += weight * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * terms.length) / (averageLength || 1)));
+    }
+    return score;
+  });
+}
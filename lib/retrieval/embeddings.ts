@@ -0,0 +1,51 @@
+import { env, pipeline, type FeatureExtractionPipeline } from "@huggingface/transformers";
+
+// Sentence-BERT model small enough to run on CPU inside the Node server
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL ?? "Xenova/all-MiniLM-L6-v2";
+const BATCH_SIZE = 32;
+
+if (process.env.EMBEDDING_MODEL_PATH) {
+  // Serve model files from disk only, for machines without network access
+  env.localModelPath = process.env.EMBEDDING_MODEL_PATH;
+  env.allowRemoteModels = false;
+}
+
+let extractorPromise: Promise<FeatureExtractionPipeline | null> | null = null;
+
+function getExtractor() {
+  extractorPromise ??= pipeline("feature-extraction", EMBEDDING_MODEL, { dtype: "q8" })
+    .then((extractor) => extractor as FeatureExtractionPipeline)
+    .catch((error) => {
+      console.warn(`Embedding model ${EMBEDDING_MODEL} unavailable, using keyword retrieval only:`, error);
+      return null;
+    });
+  return extractorPromise;
+}
+
+export function getEmbeddingModelName() {
+  return EMBEDDING_MODEL;
+}
+
+/**
+ * Embeds texts as normalized mean-pooled vectors. Returns null when the
+ * model cannot be loaded so callers can fall back to keyword retrieval.
+ */
+export async function embedTexts(texts: string[]): Promise<number[][] | null> {
+  const extractor = await getExtractor();
+  if (!extractor) {
+    return null;
+  }
+
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const output = await extractor(texts.slice(i, i + BATCH_SIZE), { pooling: "mean", normalize: true });
+    // Five decimals keeps ranking intact while shrinking stored documents
+    vectors.push(...(output.tolist() as number[][]).map((vector) => vector.map((value) => Number(value.toFixed(5)))));
+  }
+  return vectors;
+}
+
+export async function embedQuery(query: string) {
+  const vectors = await embedTexts([query]);
+  return vectors?.[0] ?? null;
+}
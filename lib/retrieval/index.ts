@@ -0,0 +1,174 @@
+import { cosineSimilarity } from "ai";
+import type { DocumentChunk } from "@/lib/segmentation";
+import { scoreBm25, type WeightedTerm } from "./bm25";
+import { expandQuery } from "./synonyms";
+import { estimateTokens, tokenize } from "./tokenize";
+
+export interface RetrievalDocument {
+  id: string;
+  name: string;
+  parentName?: string;
+  policyNumber?: string;
+  chunks: DocumentChunk[];
+}
+
+// An embedding computed for a chunk that was stored without one
+export interface ChunkEmbedding {
+  documentId: string;
+  chunkId: string;
+  embedding: number[];
+}
+
+export interface RetrievedChunk {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  page?: number;
+  score: number;
+  tokens: number;
+  method: RetrievalMethod;
+}
+
+export type RetrievalMethod = "hybrid" | "vector" | "lexical";
+
+export interface RetrievalOptions {
+  topK: number;
+  tokenBudget: number;
+  // When present (and chunks carry embeddings) vector ranking is fused with BM25
+  queryEmbedding?: number[] | null;
+}
+
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  topK: Number(process.env.RETRIEVAL_TOP_K) || 8,
+  tokenBudget: Number(process.env.RETRIEVAL_TOKEN_BUDGET) || 6000,
+};
+
+// Synonym expansions count for less than the terms the user actually typed
+const EXPANSION_WEIGHT = 0.5;
+// Reciprocal rank fusion constant; damps the advantage of the very top ranks
+const RRF_K = 60;
+
+interface Candidate {
+  chunk: DocumentChunk;
+  document: RetrievalDocument;
+  score: number;
+}
+
+function queryTerms(query: string): WeightedTerm[] {
+  const weights = new Map<string, number>();
+  for (const term of tokenize(query)) {
+    weights.set(term, 1);
+  }
+  for (const term of expandQuery(query).flatMap(tokenize)) {
+    if (!weights.has(term)) weights.set(term, EXPANSION_WEIGHT);
+  }
+  return Array.from(weights, ([term, weight]) => ({ term, weight }));
+}
+
+function rankByKeywords(query: string, candidates: Candidate[]) {
+  const scores = scoreBm25(
+    queryTerms(query),
+    candidates.map(({ chunk }) => tokenize(chunk.text))
+  );
+  return candidates
+    .map((candidate, index) => ({ ...candidate, score: scores[index] }))
+    .filter((candidate) => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+function rankByVector(queryEmbedding: number[], candidates: Candidate[]) {
+  return candidates
+    .filter(({ chunk }) => chunk.embedding)
+    .map((candidate) => ({ ...candidate, score: cosineSimilarity(queryEmbedding, candidate.chunk.embedding!) }))
+    .filter((candidate) => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Combines rankings by position, so BM25 and cosine scores need no common scale
+function fuseRankings(rankings: Candidate[][]) {
+  const fused = new Map<string, Candidate>();
+  for (const ranking of rankings) {
+    ranking.forEach((candidate, rank) => {
+      const existing = fused.get(candidate.chunk.id);
+      const score = (existing?.score ?? 0) + 1 / (RRF_K + rank + 1);
+      fused.set(candidate.chunk.id, { ...candidate, score });
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Selects the chunks most relevant to a query, keeping at most `topK` of
+ * them and staying within `tokenBudget`. When nothing matches, the opening
+ * chunks of each document are sent so the model can still ask for detail.
+ */
+export function retrieveChunks(
+  query: string,
+  documents: RetrievalDocument[],
+  options: RetrievalOptions = DEFAULT_RETRIEVAL_OPTIONS
+): RetrievedChunk[] {
+  const candidates = documents.flatMap((document) =>
+    document.chunks.map((chunk) => ({ chunk, document, score: 0 }))
+  );
+  const keywordRanking = rankByKeywords(query, candidates);
+  const vectorRanking = options.queryEmbedding ? rankByVector(options.queryEmbedding, candidates) : [];
+
+  let method: RetrievalMethod = "lexical";
+  let ranked = keywordRanking;
+  if (vectorRanking.length > 0) {
+    method = keywordRanking.length > 0 ? "hybrid" : "vector";
+    ranked = keywordRanking.length > 0 ? fuseRankings([keywordRanking, vectorRanking]) : vectorRanking;
+  }
+  if (ranked.length === 0) {
+    ranked = [...candidates].sort((a, b) => a.chunk.index - b.chunk.index);
+  }
+
+  const selected: RetrievedChunk[] = [];
+  let tokensUsed = 0;
+  for (const { chunk, document, score } of ranked) {
+    if (selected.length >= options.topK) break;
+    const tokens = estimateTokens(chunk.text);
+    if (tokensUsed + tokens > options.tokenBudget) continue;
+
+    tokensUsed += tokens;
+    selected.push({
+      chunkId: chunk.id,
+      documentId: document.id,
+      documentName: document.name,
+      page: chunk.page,
+      score: Number(score.toFixed(4)),
+      tokens,
+      method,
+    });
+  }
+  return selected;
+}
+
+/**
+ * Renders retrieved chunks as prompt context, grouped by document and in
+ * reading order, with [Page N] markers for citation.
+ */
+export function formatRetrievedContext(retrieved: RetrievedChunk[], documents: RetrievalDocument[]) {
+  const selectedIds = new Set(retrieved.map((chunk) => chunk.chunkId));
+
+  return documents
+    .map((document) => {
+      const chunks = document.chunks.filter((chunk) => selectedIds.has(chunk.id));
+      if (chunks.length === 0) return null;
+
+      const header = [
+        `Document: ${document.name}`,
+        document.parentName && `Attachment of: ${document.parentName}`,
+        document.policyNumber && `Policy Number: ${document.policyNumber}`,
+      ].filter(Boolean).join("\n");
+      const body = chunks
+        .sort((a, b) => a.start - b.start)
+        .map((chunk) => (chunk.page ? `[Page ${chunk.page}]\n${chunk.text}` : chunk.text))
+        .join("\n...\n");
+      return `${header}\n${body}`;
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export { estimateTokens } from "./tokenize";
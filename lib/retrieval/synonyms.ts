@@ -0,0 +1,56 @@
+import fs from "fs";
+import defaultSynonyms from "./insurance-synonyms.json";
+
+export type SynonymGroups = string[][];
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/[\s\-]+/g, " ").trim();
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+let cachedGroups: SynonymGroups | null = null;
+
+/**
+ * Loads the built-in insurance synonym groups plus any extra groups from the
+ * JSON file at INSURANCE_SYNONYMS_PATH (an array of arrays of equivalent terms).
+ */
+export function getSynonymGroups(): SynonymGroups {
+  if (cachedGroups) return cachedGroups;
+
+  const groups: SynonymGroups = [...defaultSynonyms];
+  const extraPath = process.env.INSURANCE_SYNONYMS_PATH;
+  if (extraPath) {
+    try {
+      const extra = JSON.parse(fs.readFileSync(extraPath, "utf8"));
+      if (Array.isArray(extra)) {
+        groups.push(...extra.filter((group): group is string[] => Array.isArray(group)));
+      }
+    } catch (error) {
+      console.warn(`Could not load synonyms from ${extraPath}:`, error);
+    }
+  }
+  cachedGroups = groups;
+  return groups;
+}
+
+/**
+ * Returns the synonyms of every dictionary term found in the query, e.g.
+ * "PED" expands to "pre-existing disease" and "pre-existing condition".
+ */
+export function expandQuery(query: string, groups: SynonymGroups = getSynonymGroups()) {
+  const normalized = ` ${normalize(query)} `;
+  const expansions = new Set<string>();
+
+  for (const group of groups) {
+    const variants = group.map(normalize);
+    const matched = variants.filter((variant) => new RegExp(`[^a-z0-9]${escapeRegExp(variant)}[^a-z0-9]`).test(normalized));
+    if (matched.length === 0) continue;
+    for (const variant of variants) {
+      if (!matched.includes(variant)) expansions.add(variant);
+    }
+  }
+  return Array.from(expansions);
+}
@@ -0,0 +1,39 @@
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "i", "in", "is", "it",
+  "its", "my", "of", "on", "or", "that", "the", "this", "to", "was", "were", "will", "with", "what",
+  "which", "who", "does", "do", "can", "if", "under", "any", "all", "me", "we", "our", "you", "your",
+]);
+
+// Light suffix stripping so "surgeries"/"surgery" and "claims"/"claim" meet
+function stem(term: string) {
+  if (term.length > 4 && term.endsWith("ies")) return `${term.slice(0, -3)}y`;
+  if (term.length > 4 && term.endsWith("es") && /(?:ss|x|ch|sh)es$/.test(term)) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith("s") && !term.endsWith("ss")) return term.slice(0, -1);
+  return term;
+}
+
+/**
+ * Splits text into search terms. Compound identifiers such as policy
+ * numbers ("HDF-2023-99812"), ICD codes ("M17.1") and section numbers
+ * ("4.3") are kept whole, alongside their parts, so they match exactly.
+ */
+export function tokenize(text: string) {
+  const terms: string[] = [];
+  for (const token of text.toLowerCase().match(/[a-z0-9]+(?:[.\-\/][a-z0-9]+)*/g) ?? []) {
+    const parts = token.split(/[.\-\/]/);
+    if (parts.length > 1) {
+      terms.push(token);
+    }
+    for (const part of parts) {
+      if (!STOPWORDS.has(part)) {
+        terms.push(/^[a-z]+$/.test(part) ? stem(part) : part);
+      }
+    }
+  }
+  return terms;
+}
+
+// Rough token count for budgeting; ~4 characters per token for English prose
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,24 @@
+import { parseAmount } from "@/lib/amount";
+import { verifyCitations } from "@/lib/citations";
+import type { ProcessingResult } from "@/lib/decision";
+import type { RetrievalDocument } from "@/lib/retrieval";
+import { crossCheckDecision, type RulesEvaluation } from "@/lib/rules";
+
+/**
+ * Checks a model decision in code before it is returned: citations are
+ * verified against the documents (adjusting confidence), the rules are
+ * cross-checked and the amount is normalized.
+ */
+export function reviewDecision(decision: ProcessingResult, documents: RetrievalDocument[], rules: RulesEvaluation) {
+  const { result, citations } = verifyCitations(decision, documents);
+  return {
+    result,
+    citations,
+    // The model's own confidence, before unverified citations lowered it
+    modelConfidence: decision.Confidence,
+    rules: crossCheckDecision(rules, result),
+    amount: result.Amount ? parseAmount(result.Amount) : null,
+  };
+}
+
+export type DecisionReview = ReturnType<typeof reviewDecision>;
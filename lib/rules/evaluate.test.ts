@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ProcessingResult } from "@/lib/decision";
+import { crossCheckDecision, evaluateRules } from "./evaluate";
+import type { AgeLimit, PolicyParameters } from "./types";
+
+const source = { documentId: "doc-1", documentName: "policy.pdf", chunkId: "chunk-1", text: "" };
+
+function parameters(changes: Partial<PolicyParameters>): PolicyParameters {
+  return { waitingPeriods: [], ageLimits: [], roomRentLimits: [], coPays: [], ...changes };
+}
+
+function approved(changes: Partial<ProcessingResult> = {}): ProcessingResult {
+  return { Decision: "Approved", Justification: "Covered.", Clause_References: [], Confidence: 0.9, ...changes };
+}
+
+const entryLimit: AgeLimit = { min: 18, max: 65, basis: "entry", source };
+
+describe("evaluateRules", () => {
+  it("fails a specific waiting period that has not been served", () => {
+    const evaluation = evaluateRules(
+      { procedure: "knee surgery", policyDurationMonths: 3 },
+      parameters({ waitingPeriods: [{ months: 24, scope: "specific", source: { ...source, text: "Knee replacement: 24 months" } }] })
+    );
+    assert.equal(evaluation.outcomes[0].status, "fail");
+  });
+
+  it("checks entry age limits against the age at inception on renewal", () => {
+    const evaluation = evaluateRules({ age: 70, policyDurationMonths: 120 }, parameters({ ageLimits: [entryLimit] }));
+    assert.equal(evaluation.outcomes[0].status, "pass");
+    assert.deepEqual(crossCheckDecision(evaluation, approved()).conflicts, []);
+  });
+
+  it("leaves entry age limits unknown without the policy duration", () => {
+    const evaluation = evaluateRules({ age: 70 }, parameters({ ageLimits: [entryLimit] }));
+    assert.equal(evaluation.outcomes[0].status, "unknown");
+  });
+
+  it("fails an entry age limit the claimant was already past at inception", () => {
+    const evaluation = evaluateRules({ age: 70, policyDurationMonths: 6 }, parameters({ ageLimits: [entryLimit] }));
+    assert.equal(evaluation.outcomes[0].status, "fail");
+  });
+
+  it("checks coverage age limits against the current age", () => {
+    const evaluation = evaluateRules({ age: 82, policyDurationMonths: 240 }, parameters({ ageLimits: [{ max: 80, basis: "coverage", source }] }));
+    assert.equal(evaluation.outcomes[0].status, "fail");
+    assert.equal(crossCheckDecision(evaluation, approved()).conflicts.length, 1);
+  });
+
+  it("flags an approval that ignores an applicable co-pay", () => {
+    const evaluation = evaluateRules({ age: 65 }, parameters({ coPays: [{ percent: 20, minAge: 60, source }] }));
+    assert.equal(evaluation.outcomes[0].status, "applies");
+    assert.deepEqual(crossCheckDecision(evaluation, approved()).conflicts, ["The approved amount does not mention the 20% co-pay."]);
+    assert.deepEqual(crossCheckDecision(evaluation, approved({ Amount: "80% after 20% co-pay" })).conflicts, []);
+  });
+});
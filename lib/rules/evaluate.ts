@@ -0,0 +1,170 @@
+import { formatCurrency } from "@/lib/amount";
+import type { ClaimProfile } from "@/lib/claim-profile";
+import type { ProcessingResult } from "@/lib/decision";
+import { expandQuery } from "@/lib/retrieval/synonyms";
+import type { PolicyParameters, RuleOutcome, RulesEvaluation, WaitingPeriod } from "./types";
+
+// Too generic to tie a specific waiting period to the claimed procedure
+const GENERIC_PROCEDURE_WORDS = new Set(["surgery", "treatment", "procedure", "operation", "therapy", "removal", "repair"]);
+
+function formatMonths(months: number) {
+  return months < 1 ? `${Math.round(months * 30)}-day` : `${months}-month`;
+}
+
+function procedureTerms(procedure: string) {
+  const words = procedure.toLowerCase().split(/\s+/).filter((word) => word.length > 3 && !GENERIC_PROCEDURE_WORDS.has(word));
+  return [procedure.toLowerCase(), ...expandQuery(procedure), ...words];
+}
+
+function waitingPeriodApplies(period: WaitingPeriod, profile: ClaimProfile) {
+  const constraints = (profile.constraints ?? []).join(" ").toLowerCase();
+  if (period.scope === "pre_existing") return /pre-?existing/.test(constraints);
+  if (period.scope === "initial") return !/accident/.test(`${profile.procedure ?? ""} ${constraints}`.toLowerCase());
+  if (!profile.procedure) return false;
+  const text = period.source.text.toLowerCase();
+  return procedureTerms(profile.procedure).some((term) => text.includes(term));
+}
+
+function checkWaitingPeriods(profile: ClaimProfile, parameters: PolicyParameters): RuleOutcome[] {
+  return parameters.waitingPeriods
+    .filter((period) => waitingPeriodApplies(period, profile))
+    .map((period) => {
+      const label = period.scope === "initial"
+        ? "initial"
+        : period.scope === "pre_existing"
+          ? "pre-existing condition"
+          : `${profile.procedure}`;
+      const base = { rule: "waiting_period" as const, source: period.source };
+
+      if (profile.policyDurationMonths === undefined) {
+        return { ...base, status: "unknown" as const, message: `Policy duration is needed to check the ${formatMonths(period.months)} ${label} waiting period.` };
+      }
+      return profile.policyDurationMonths < period.months
+        ? { ...base, status: "fail" as const, message: `Policy active ${profile.policyDurationMonths} months; the ${formatMonths(period.months)} ${label} waiting period has not been served.` }
+        : { ...base, status: "pass" as const, message: `Policy active ${profile.policyDurationMonths} months; the ${formatMonths(period.months)} ${label} waiting period has been served.` };
+    });
+}
+
+// Age at inception from the current age and policy duration, as the range of whole years it could have been
+function inceptionAges(profile: ClaimProfile) {
+  if (profile.age === undefined || profile.policyDurationMonths === undefined) return undefined;
+  return {
+    earliest: profile.age - Math.ceil(profile.policyDurationMonths / 12),
+    latest: profile.age - Math.floor(profile.policyDurationMonths / 12),
+  };
+}
+
+function checkAgeLimits(profile: ClaimProfile, parameters: PolicyParameters): RuleOutcome[] {
+  return parameters.ageLimits.map((limit) => {
+    const range = [limit.min !== undefined && `minimum ${limit.min}`, limit.max !== undefined && `maximum ${limit.max}`].filter(Boolean).join(", ");
+    const base = { rule: "age_limit" as const, source: limit.source };
+    const below = (age: number) => limit.min !== undefined && age < limit.min;
+    const above = (age: number) => limit.max !== undefined && age > limit.max;
+
+    if (limit.basis === "entry") {
+      // An entry limit bounds the age the policy was taken out at, so a renewing claimant may be older now
+      const ages = inceptionAges(profile);
+      if (!ages) {
+        return { ...base, status: "unknown" as const, message: `Age at policy inception is needed to check the entry age limit (${range}).` };
+      }
+      const at = ages.earliest === ages.latest ? `${ages.latest}` : `${ages.earliest}-${ages.latest}`;
+      if (below(ages.latest) || above(ages.earliest)) {
+        return { ...base, status: "fail" as const, message: `Age at inception (${at}) is outside the policy's entry age limit (${range}).` };
+      }
+      if (below(ages.earliest) || above(ages.latest)) {
+        return { ...base, status: "unknown" as const, message: `Age at inception (${at}) may be outside the policy's entry age limit (${range}).` };
+      }
+      return { ...base, status: "pass" as const, message: `Age at inception (${at}) is within the policy's entry age limit (${range}).` };
+    }
+
+    if (profile.age === undefined) {
+      return { ...base, status: "unknown" as const, message: `Age is needed to check the age limit (${range}).` };
+    }
+    return below(profile.age) || above(profile.age)
+      ? { ...base, status: "fail" as const, message: `Age ${profile.age} is outside the policy's age limit (${range}).` }
+      : { ...base, status: "pass" as const, message: `Age ${profile.age} is within the policy's age limit (${range}).` };
+  });
+}
+
+function checkRoomRent(parameters: PolicyParameters): RuleOutcome[] {
+  return parameters.roomRentLimits.map((limit) => ({
+    rule: "room_rent",
+    status: "applies",
+    message: limit.percentOfSumInsured !== undefined
+      ? `Room rent is capped at ${limit.percentOfSumInsured}% of the sum insured per day.`
+      : `Room rent is capped at ${formatCurrency(limit.perDay ?? 0)} per day.`,
+    value: limit.percentOfSumInsured ?? limit.perDay,
+    unit: limit.percentOfSumInsured !== undefined ? "percent" : "per_day",
+    source: limit.source,
+  }));
+}
+
+function checkCoPays(profile: ClaimProfile, parameters: PolicyParameters): RuleOutcome[] {
+  const nonNetwork = (profile.constraints ?? []).some((constraint) => /non-?network/i.test(constraint));
+  return parameters.coPays.flatMap((coPay): RuleOutcome[] => {
+    const base = { rule: "co_pay" as const, source: coPay.source };
+    if (coPay.nonNetworkOnly && !nonNetwork) return [];
+    if (coPay.minAge !== undefined) {
+      if (profile.age === undefined) {
+        return [{ ...base, status: "unknown", message: `A ${coPay.percent}% co-pay applies from age ${coPay.minAge}; age is needed to check it.` }];
+      }
+      if (profile.age < coPay.minAge) return [];
+    }
+    return [{
+      ...base,
+      status: "applies",
+      message: `A ${coPay.percent}% co-pay applies, so ${100 - coPay.percent}% of the admissible amount is payable.`,
+      value: coPay.percent,
+      unit: "percent",
+    }];
+  });
+}
+
+/** Evaluates the extracted policy parameters against a claim profile. */
+export function evaluateRules(profile: ClaimProfile, parameters: PolicyParameters): RulesEvaluation {
+  return {
+    outcomes: [
+      ...checkWaitingPeriods(profile, parameters),
+      ...checkAgeLimits(profile, parameters),
+      ...checkRoomRent(parameters),
+      ...checkCoPays(profile, parameters),
+    ],
+    conflicts: [],
+  };
+}
+
+/**
+ * Compares the model's decision with the rule outcomes. The rules only
+ * cover arithmetic conditions, so a rejection on other grounds is not a
+ * conflict, but approving a claim a rule fails is.
+ */
+export function crossCheckDecision(evaluation: RulesEvaluation, result: ProcessingResult): RulesEvaluation {
+  const conflicts: string[] = [];
+  const failed = evaluation.outcomes.filter((outcome) => outcome.status === "fail");
+  const waitingPeriods = evaluation.outcomes.filter((outcome) => outcome.rule === "waiting_period");
+
+  if (result.Decision === "Approved") {
+    for (const outcome of failed) {
+      conflicts.push(`The model approved the claim, but: ${outcome.message}`);
+    }
+  }
+  if (
+    result.Decision === "Rejected" &&
+    /waiting period/i.test(result.Justification) &&
+    waitingPeriods.length > 0 &&
+    waitingPeriods.every((outcome) => outcome.status === "pass")
+  ) {
+    conflicts.push("The model cites a waiting period, but every applicable waiting period has been served.");
+  }
+
+  if (result.Decision === "Approved") {
+    const reasoning = `${result.Amount ?? ""} ${result.Justification}`;
+    for (const outcome of evaluation.outcomes.filter((outcome) => outcome.rule === "co_pay" && outcome.status === "applies")) {
+      if (!reasoning.includes(`${outcome.value}%`) && !/co-?pay/i.test(reasoning)) {
+        conflicts.push(`The approved amount does not mention the ${outcome.value}% co-pay.`);
+      }
+    }
+  }
+
+  return { ...evaluation, conflicts };
+}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractPolicyParameters } from "./extract";
+
+function policy(text: string) {
+  return [{ id: "doc-1", name: "policy.pdf", chunks: [{ id: "chunk-1", index: 0, text, start: 0, end: text.length, page: 3 }] }];
+}
+
+describe("extractPolicyParameters", () => {
+  it("reads waiting periods with their scope", () => {
+    const { waitingPeriods } = extractPolicyParameters(policy(
+      "A 30 days initial waiting period applies to all illnesses. Pre-existing diseases have a waiting period of 36 months. Cataract surgery has a 24 months waiting period."
+    ));
+    assert.deepEqual(waitingPeriods.map(({ months, scope }) => ({ months, scope })), [
+      { months: 1, scope: "initial" },
+      { months: 36, scope: "pre_existing" },
+      { months: 24, scope: "specific" },
+    ]);
+    assert.equal(waitingPeriods[0].source.page, 3);
+  });
+
+  it("reads entry and coverage age limits", () => {
+    const { ageLimits } = extractPolicyParameters(policy(
+      "Entry age is 91 days to 65 years. Cover ceases at a maximum age of 80 years."
+    ));
+    assert.deepEqual(ageLimits.map(({ min, max, basis }) => ({ min, max, basis })), [
+      { min: undefined, max: 65, basis: "entry" },
+      { min: undefined, max: 80, basis: "coverage" },
+    ]);
+  });
+
+  it("does not read a reversed range as an age limit", () => {
+    const { ageLimits } = extractPolicyParameters(policy("Age bands run 65 to 18 years."));
+    assert.deepEqual(ageLimits, []);
+  });
+
+  it("reads room-rent caps and co-pays", () => {
+    const { roomRentLimits, coPays } = extractPolicyParameters(policy(
+      "Room rent is limited to 1% of the sum insured per day. A 20% co-pay applies to insured persons aged 60 years and above."
+    ));
+    assert.equal(roomRentLimits[0].percentOfSumInsured, 1);
+    assert.equal(coPays[0].percent, 20);
+    assert.equal(coPays[0].minAge, 60);
+  });
+});
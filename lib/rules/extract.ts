@@ -0,0 +1,154 @@
+import type { RetrievalDocument } from "@/lib/retrieval";
+import type { AgeLimit, AgeLimitBasis, CoPay, ParameterSource, PolicyParameters, RoomRentLimit, WaitingPeriod } from "./types";
+
+// Clause text for a sentence: the sentence plus the list lines that follow it, e.g. the
+// diseases under "The following have a 24 month waiting period:"
+const CONTEXT_LENGTH = 400;
+
+const DURATION = String.raw`\(?(\d+)\)?\s*(days?|months?|years?)`;
+
+function toMonths(value: number, unit: string) {
+  if (/^y/i.test(unit)) return value * 12;
+  if (/^d/i.test(unit)) return Math.round((value / 30) * 10) / 10;
+  return value;
+}
+
+function parseNumber(text: string) {
+  return Number(text.replace(/,/g, ""));
+}
+
+interface Sentence {
+  text: string;
+  context: string;
+  source: Omit<ParameterSource, "text">;
+}
+
+function splitSentences(documents: RetrievalDocument[]) {
+  const sentences: Sentence[] = [];
+  for (const document of documents) {
+    for (const chunk of document.chunks) {
+      // Periods inside clause numbers and decimals ("4.1", "1.5%") do not end a sentence
+      const pattern = /(?:[^.;\n]|[.;](?=\S))+(?:[.;]|\n|$)/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(chunk.text))) {
+        const text = match[0].trim();
+        if (!text) continue;
+        const context = chunk.text.slice(match.index, match.index + CONTEXT_LENGTH).split(/\n\s*\n/)[0];
+        sentences.push({
+          text,
+          context,
+          source: { documentId: document.id, documentName: document.name, chunkId: chunk.id, page: chunk.page },
+        });
+      }
+    }
+  }
+  return sentences;
+}
+
+function waitingPeriodIn(sentence: Sentence): WaitingPeriod | null {
+  if (!/waiting/i.test(sentence.text)) return null;
+
+  // "24 months waiting period", "30 days initial waiting period", "36 months pre-existing disease waiting period"
+  const match = sentence.text.match(new RegExp(`${DURATION}\\s+(?:of\\s+)?(?:continuous\\s+coverage\\s+)?(?:(?:initial|pre-?existing(?:\\s+diseases?)?|specific(?:\\s+diseases?)?)\\s+)?waiting`, "i"))
+    ?? sentence.text.match(new RegExp(`waiting\\s+period\\s+(?:of|is|shall be)?\\s*(?:\\w+\\s+)?${DURATION}`, "i"))
+    ?? sentence.text.match(new RegExp(`(?:first|initial)\\s+${DURATION}`, "i"));
+  if (!match) return null;
+
+  const scope = /pre-?existing|\bped\b/i.test(sentence.text)
+    ? "pre_existing"
+    : /\b(?:initial|first)\b|any illness|all (?:illnesses|claims)/i.test(sentence.text)
+      ? "initial"
+      : "specific";
+
+  return {
+    months: toMonths(Number(match[1]), match[2]),
+    scope,
+    source: { ...sentence.source, text: scope === "specific" ? sentence.context : sentence.text },
+  };
+}
+
+// Most age ranges in a wording limit entry; only those about cover or renewal limit who can claim
+const ENTRY_AGE_WORDS = /\b(?:entry|enrol(?:l?ment|led)?|inception|proposal|proposer|join(?:ing)?|purchase|eligib(?:le|ility))\b/i;
+const COVERAGE_AGE_WORDS = /\b(?:covered|coverage|cover|claims?|renew(?:al|able|ed)?|cease[sd]?|terminat(?:e[sd]?|ion)|expir(?:e[sd]?|y))\b/i;
+
+function ageLimitBasis(text: string): AgeLimitBasis {
+  return !ENTRY_AGE_WORDS.test(text) && COVERAGE_AGE_WORDS.test(text) ? "coverage" : "entry";
+}
+
+function ageLimitIn(sentence: Sentence): AgeLimit | null {
+  if (!/\bage\b/i.test(sentence.text) || /co-?pay/i.test(sentence.text)) return null;
+  const basis = ageLimitBasis(sentence.text);
+
+  const range = sentence.text.match(/\b(\d{1,3})\s*(days?|months?|years?|yrs)?\s*(?:to|and|-|–)\s*(\d{2,3})\s*(?:years|yrs)\b/i);
+  if (range) {
+    // Claim ages are whole years, so a lower bound in days or months ("91 days to 65 years") is left unchecked
+    const min = !range[2] || /^y/i.test(range[2]) ? Number(range[1]) : undefined;
+    const max = Number(range[3]);
+    if (min === undefined || min <= max) {
+      return { min, max, basis, source: { ...sentence.source, text: sentence.text } };
+    }
+  }
+  const max = sentence.text.match(/\b(?:maximum|upper)\b[^.\d]*?\b(\d{2,3})\s*(?:years|yrs)\b/i);
+  const min = sentence.text.match(/\b(?:minimum|lower)\b[^.\d]*?\b(\d{1,2})\s*(?:years|yrs)\b/i);
+  if (!max && !min) return null;
+  return {
+    min: min ? Number(min[1]) : undefined,
+    max: max ? Number(max[1]) : undefined,
+    basis,
+    source: { ...sentence.source, text: sentence.text },
+  };
+}
+
+function roomRentLimitIn(sentence: Sentence): RoomRentLimit | null {
+  if (!/room\s+(?:rent|charges)/i.test(sentence.text)) return null;
+
+  const percent = sentence.text.match(/(\d+(?:\.\d+)?)\s*%\s*(?:of\s+)?(?:the\s+)?sum\s+insured/i);
+  const perDay = sentence.text.match(/(?:rs\.?|inr|₹)\s*([\d,]+)/i);
+  if (!percent && !perDay) return null;
+  return {
+    percentOfSumInsured: percent ? Number(percent[1]) : undefined,
+    perDay: perDay ? parseNumber(perDay[1]) : undefined,
+    source: { ...sentence.source, text: sentence.text },
+  };
+}
+
+function coPayIn(sentence: Sentence): CoPay | null {
+  const match = sentence.text.match(/(\d+(?:\.\d+)?)\s*%\s*(?:of\s+\w+\s+)?co-?pay/i)
+    ?? sentence.text.match(/co-?pay(?:ment)?[^%]*?(\d+(?:\.\d+)?)\s*%/i);
+  if (!match) return null;
+
+  const minAge = sentence.text.match(/(?:aged?|above|over)\s*(\d{2})\s*(?:years)?/i);
+  return {
+    percent: Number(match[1]),
+    minAge: minAge ? Number(minAge[1]) : undefined,
+    nonNetworkOnly: /non-?network/i.test(sentence.text) || undefined,
+    source: { ...sentence.source, text: sentence.text },
+  };
+}
+
+// Overlapping chunks repeat sentences, so parameters are keyed on their value and text
+function unique<T extends { source: ParameterSource }>(items: Array<T | null>) {
+  const seen = new Set<string>();
+  return items.filter((item): item is T => {
+    if (!item) return false;
+    const { source, ...value } = item;
+    const key = JSON.stringify(value) + source.text.slice(0, 120);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Reads the numeric policy parameters the rules engine checks (waiting
+ * periods, age limits, room-rent caps and co-pays) from document text.
+ */
+export function extractPolicyParameters(documents: RetrievalDocument[]): PolicyParameters {
+  const sentences = splitSentences(documents);
+  return {
+    waitingPeriods: unique(sentences.map(waitingPeriodIn)),
+    ageLimits: unique(sentences.map(ageLimitIn)),
+    roomRentLimits: unique(sentences.map(roomRentLimitIn)),
+    coPays: unique(sentences.map(coPayIn)),
+  };
+}
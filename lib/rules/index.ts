@@ -0,0 +1,35 @@
+import type { RulesEvaluation } from "./types";
+
+const STATUS_LABELS = {
+  pass: "PASS",
+  fail: "FAIL",
+  applies: "APPLIES",
+  unknown: "UNKNOWN",
+};
+
+/** Rule outcomes as prompt lines, citing the document each parameter came from. */
+export function formatRuleOutcomes(evaluation: RulesEvaluation) {
+  return evaluation.outcomes
+    .map((outcome) => {
+      const page = outcome.source.page ? `, page ${outcome.source.page}` : "";
+      return `- [${STATUS_LABELS[outcome.status]}] ${outcome.message} (${outcome.source.documentName}${page})`;
+    })
+    .join("\n");
+}
+
+export { crossCheckDecision, evaluateRules } from "./evaluate";
+export { extractPolicyParameters } from "./extract";
+export type {
+  AgeLimit,
+  AgeLimitBasis,
+  CoPay,
+  ParameterSource,
+  PolicyParameters,
+  RoomRentLimit,
+  RuleName,
+  RuleOutcome,
+  RuleStatus,
+  RulesEvaluation,
+  WaitingPeriod,
+  WaitingPeriodScope,
+} from "./types";
@@ -0,0 +1,71 @@
+/** Where in the uploaded documents a policy parameter was read from. */
+export interface ParameterSource {
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  page?: number;
+  text: string;
+}
+
+export type WaitingPeriodScope = "initial" | "pre_existing" | "specific";
+
+export interface WaitingPeriod {
+  months: number;
+  scope: WaitingPeriodScope;
+  source: ParameterSource;
+}
+
+// "entry" limits the age at which the policy can be taken out; "coverage" the age at which it still pays claims
+export type AgeLimitBasis = "entry" | "coverage";
+
+export interface AgeLimit {
+  min?: number;
+  max?: number;
+  basis: AgeLimitBasis;
+  source: ParameterSource;
+}
+
+export interface RoomRentLimit {
+  percentOfSumInsured?: number;
+  perDay?: number;
+  source: ParameterSource;
+}
+
+export interface CoPay {
+  percent: number;
+  // Conditions stated in the same sentence; a co-pay without conditions always applies
+  minAge?: number;
+  nonNetworkOnly?: boolean;
+  source: ParameterSource;
+}
+
+export interface PolicyParameters {
+  waitingPeriods: WaitingPeriod[];
+  ageLimits: AgeLimit[];
+  roomRentLimits: RoomRentLimit[];
+  coPays: CoPay[];
+}
+
+export type RuleName = "waiting_period" | "age_limit" | "room_rent" | "co_pay";
+
+/**
+ * "fail" rules the claim out, "applies" adjusts the payable amount, and
+ * "unknown" means the claim profile lacks a field the rule needs.
+ */
+export type RuleStatus = "pass" | "fail" | "applies" | "unknown";
+
+export interface RuleOutcome {
+  rule: RuleName;
+  status: RuleStatus;
+  message: string;
+  // The figure behind an "applies" outcome: a co-pay or room-rent percentage, or a room-rent cap per day
+  value?: number;
+  unit?: "percent" | "per_day";
+  source: ParameterSource;
+}
+
+export interface RulesEvaluation {
+  outcomes: RuleOutcome[];
+  // Where the rules and the model's decision disagree; empty until cross-checked
+  conflicts: string[];
+}
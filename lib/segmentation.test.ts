@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { htmlToStructuredText } from "./ingestion/html";
+import { segmentDocument } from "./segmentation";
+
+function headings(content: string) {
+  return segmentDocument("doc", content).clauses.map((clause) => [clause.number, clause.heading, clause.kind]);
+}
+
+describe("segmentDocument clauses", () => {
+  it("splits at numbered, keyword and markdown headings", () => {
+    assert.deepEqual(headings("Policy Wording\n\n1. Definitions\nHospital means a registered institution.\n\nEXCLUSIONS\nDental treatment.\n\n## Claims\nNotify us."), [
+      [undefined, "Preamble", "general"],
+      ["1", "1. Definitions", "definition"],
+      [undefined, "EXCLUSIONS", "exclusion"],
+      [undefined, "Claims", "general"],
+    ]);
+  });
+
+  it("gives numbered sub-clauses the kind of their section", () => {
+    const kinds = segmentDocument("doc", "4. Waiting Periods\nAs below.\n4.1 Cataract\n24 months.").clauses.map((clause) => clause.kind);
+    assert.deepEqual(kinds, ["waiting_period", "waiting_period"]);
+  });
+
+  it("does not treat numbered sentences or list items as headings", () => {
+    assert.deepEqual(headings("3. Claims\n1. The insured shall notify the company within 30 days.\n2. Original bills must be submitted\n30 days from the date of discharge\n2023 Edition"), [
+      ["3", "3. Claims", "general"],
+    ]);
+  });
+
+  it("keeps DOCX ordered lists inside their section", () => {
+    const content = htmlToStructuredText("<h2>Claims Procedure</h2><ol><li>The insured shall intimate the claim within 24 hours.</li><li>Submit the discharge summary and original bills.</li></ol>");
+    assert.deepEqual(headings(content), [[undefined, "Claims Procedure", "general"]]);
+  });
+
+  it("assigns clauses the page they start on", () => {
+    const content = "1. Cover\nText.\n2. Exclusions\nText.";
+    const { clauses } = segmentDocument("doc", content, [
+      { number: 1, offset: 0, text: content.slice(0, 15) },
+      { number: 2, offset: 15, text: content.slice(15) },
+    ]);
+    assert.deepEqual(clauses.map((clause) => clause.page), [1, 2]);
+  });
+});
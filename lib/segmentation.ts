@@ -0,0 +1,233 @@
+import type { DocumentPage } from "@/lib/ingestion/types";
+
+export type ClauseKind = "definition" | "exclusion" | "waiting_period" | "general";
+
+export interface DocumentChunk {
+  id: string;
+  index: number;
+  text: string;
+  // Character offsets into the document's content, end exclusive
+  start: number;
+  end: number;
+  page?: number;
+  // Sentence embedding computed at ingestion, when the model is available
+  embedding?: number[];
+}
+
+export interface DocumentClause {
+  id: string;
+  index: number;
+  // Section number as written in the document, e.g. "4.2.1"
+  number?: string;
+  heading: string;
+  kind: ClauseKind;
+  text: string;
+  start: number;
+  end: number;
+  page?: number;
+}
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 150;
+const MAX_KEYWORD_HEADING_LENGTH = 80;
+
+// Numbered lines longer than this, or shaped like sentences, are body text or list items
+const MAX_NUMBERED_TITLE_LENGTH = 60;
+const MAX_NUMBERED_TITLE_WORDS = 8;
+
+const NUMBERED_HEADING = /^(#{1,6}\s+)?((?:section|clause|article)\s+)?(\d+(?:\.\d+)*)([.)]?)\s+(\S.*)$/i;
+const MARKDOWN_HEADING = /^#{1,6}\s+(\S.*)$/;
+const KEYWORD_HEADING = /^(?:[A-Z][\w-]*\s+){0,4}(?:exclusions?|waiting\s+periods?|definitions?)\b[\w\s&()\/-]*:?$/i;
+
+const KIND_PATTERNS: Array<[ClauseKind, RegExp]> = [
+  ["waiting_period", /waiting\s+period/i],
+  ["exclusion", /exclu(?:sion|ded|des)/i],
+  ["definition", /definition|\bmeans\b/i],
+];
+
+function classify(text: string): ClauseKind | undefined {
+  return KIND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+export function pageAt(pages: DocumentPage[], offset: number) {
+  let page: DocumentPage | undefined;
+  for (const candidate of pages) {
+    if (candidate.offset > offset) break;
+    page = candidate;
+  }
+  return page?.number;
+}
+
+// Picks the latest natural break (paragraph, line, sentence, word) before `end`
+function findBreak(text: string, start: number, end: number) {
+  const minimum = start + Math.floor(CHUNK_SIZE / 2);
+  for (const separator of ["\n\n", "\n", ". ", " "]) {
+    const index = text.lastIndexOf(separator, end - separator.length);
+    if (index >= minimum) {
+      return index + separator.length;
+    }
+  }
+  return end;
+}
+
+function chunkRange(documentId: string, content: string, from: number, to: number, page: number | undefined, chunks: DocumentChunk[]) {
+  let start = from;
+  while (start < to) {
+    const end = to - start <= CHUNK_SIZE ? to : findBreak(content, start, start + CHUNK_SIZE);
+    const raw = content.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const text = raw.trim();
+
+    if (text) {
+      const index = chunks.length;
+      chunks.push({
+        id: `${documentId}_chunk_${index}`,
+        index,
+        text,
+        start: start + leading,
+        end: start + leading + text.length,
+        page,
+      });
+    }
+    if (end >= to) break;
+
+    // Step back for overlap, but always make progress and start on a word
+    let next = Math.max(end - CHUNK_OVERLAP, start + 1);
+    const space = content.indexOf(" ", next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+}
+
+function splitChunks(documentId: string, content: string, pages: DocumentPage[]) {
+  const chunks: DocumentChunk[] = [];
+  if (pages.length === 0) {
+    chunkRange(documentId, content, 0, content.length, undefined, chunks);
+  }
+  // Chunks never span a page break so each one has a single page number
+  for (const page of pages) {
+    chunkRange(documentId, content, page.offset, page.offset + page.text.length, page.number, chunks);
+  }
+  return chunks;
+}
+
+/**
+ * Whether a line starting with a number is a section heading ("4.2 Exclusions",
+ * "3. Definitions", "Section 7 Claims") rather than body text that happens to
+ * start with one ("30 days from the date of…", a wrapped PDF line).
+ */
+function isNumberedHeading(match: RegExpMatchArray) {
+  const [, markdown, keyword, number, , title] = match;
+  // Bare numbers ("2023", "12 months") are not headings; section numbers are short
+  if (!number.split(".").every((part) => part.length <= 3)) return false;
+  // Counts in body text carry on in lowercase ("24 hours of hospitalisation")
+  if (/^[a-z]/.test(title)) return false;
+  if (markdown || keyword) return true;
+  // Otherwise the title must read as one, unlike numbered sentences and ordered-list
+  // items ("1. The insured shall notify the company within 30 days.")
+  return title.length <= MAX_NUMBERED_TITLE_LENGTH
+    && title.split(/\s+/).length <= MAX_NUMBERED_TITLE_WORDS
+    && !/[.;,]$/.test(title)
+    && !/\b(?:shall|must)\b/i.test(title);
+}
+
+interface HeadingMatch {
+  start: number;
+  number?: string;
+  heading: string;
+}
+
+function findHeadings(content: string) {
+  const headings: HeadingMatch[] = [];
+  let offset = 0;
+
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    const start = offset + line.indexOf(trimmed);
+    offset += line.length + 1;
+    if (!trimmed) continue;
+
+    const numbered = trimmed.match(NUMBERED_HEADING);
+    if (numbered && isNumberedHeading(numbered)) {
+      headings.push({ start, number: numbered[3], heading: trimmed.replace(/^#+\s+/, "") });
+      continue;
+    }
+    const markdown = trimmed.match(MARKDOWN_HEADING);
+    if (markdown) {
+      headings.push({ start, heading: markdown[1] });
+      continue;
+    }
+    if (trimmed.length <= MAX_KEYWORD_HEADING_LENGTH && KEYWORD_HEADING.test(trimmed)) {
+      headings.push({ start, heading: trimmed });
+    }
+  }
+  return headings;
+}
+
+function splitClauses(documentId: string, content: string, pages: DocumentPage[]) {
+  const headings = findHeadings(content);
+  if (headings.length === 0 || headings[0].start > 0) {
+    // Text before the first heading (cover page, preamble) is kept as its own clause
+    headings.unshift({ start: 0, heading: "Preamble" });
+  }
+
+  const kindsByNumber = new Map<string, ClauseKind>();
+  let sectionKind: ClauseKind | undefined;
+  let lastTopLevel = 0;
+  let sectionAfterTopLevel = 0;
+  const clauses: DocumentClause[] = [];
+
+  headings.forEach((heading, i) => {
+    const end = i + 1 < headings.length ? headings[i + 1].start : content.length;
+    const text = content.slice(heading.start, end).trim();
+    if (!text) return;
+
+    let kind = classify(heading.heading);
+    if (heading.number) {
+      // Numbered clauses inherit the kind of their parent section (4.2.1 under "4. Exclusions")
+      const parts = heading.number.split(".");
+      if (parts.length === 1) {
+        // "5. Claims" after "4. ... / WAITING PERIODS" resumes the outer numbering and ends that section
+        const topLevel = Number(parts[0]);
+        if (sectionAfterTopLevel > 0 && topLevel === sectionAfterTopLevel + 1) sectionKind = undefined;
+        lastTopLevel = topLevel;
+      }
+      for (let depth = parts.length - 1; !kind && depth > 0; depth--) {
+        kind = kindsByNumber.get(parts.slice(0, depth).join("."));
+      }
+      kind ??= sectionKind;
+      if (kind) kindsByNumber.set(heading.number, kind);
+    } else {
+      // Unnumbered headings ("EXCLUSIONS", "## Definitions") open a section for what follows
+      sectionKind = kind;
+      sectionAfterTopLevel = lastTopLevel;
+    }
+    kind ??= classify(text.slice(0, 200)) ?? "general";
+
+    const index = clauses.length;
+    clauses.push({
+      id: `${documentId}_clause_${index}`,
+      index,
+      number: heading.number,
+      heading: heading.heading.slice(0, 120),
+      kind,
+      text,
+      start: heading.start,
+      end: heading.start + text.length,
+      page: pageAt(pages, heading.start),
+    });
+  });
+  return clauses;
+}
+
+/**
+ * Splits a document into overlapping retrieval chunks and into clauses at
+ * numbered or keyword headings. Output is deterministic for the same input,
+ * so chunk and clause IDs stay stable when a document is re-segmented.
+ */
+export function segmentDocument(documentId: string, content: string, pages: DocumentPage[] = []) {
+  return {
+    chunks: splitChunks(documentId, content, pages),
+    clauses: splitClauses(documentId, content, pages),
+  };
+}
@@ -0,0 +1,131 @@
+import type { DocumentChunk } from "@/lib/segmentation";
+import { indexedDbStore } from "./indexed-db";
+import type { QueryResult, StoredDocument, Workspace } from "./types";
+
+export type StorageMode = "server" | "browser";
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+/** What the page needs from wherever documents and history are kept. */
+export interface DocumentStore {
+  mode: StorageMode;
+  fetchWorkspaces(): Promise<Workspace[]>;
+  createWorkspace(workspace: Workspace): Promise<void>;
+  renameWorkspace(id: string, name: string): Promise<void>;
+  // Also deletes the workspace's documents and query history
+  removeWorkspace(id: string): Promise<void>;
+  fetchDocuments(workspaceId: string): Promise<StoredDocument[]>;
+  createDocuments(documents: StoredDocument[]): Promise<void>;
+  updateDocument(document: StoredDocument): Promise<void>;
+  removeDocument(id: string): Promise<void>;
+  clearDocuments(workspaceId: string): Promise<void>;
+  fetchChunks(documentId: string): Promise<DocumentChunk[]>;
+  fetchQueryResults(workspaceId: string): Promise<QueryResult[]>;
+  createQueryResults(queries: QueryResult[]): Promise<void>;
+  removeQueryResult(id: string): Promise<void>;
+  clearQueryResults(workspaceId: string): Promise<void>;
+  // Null when the backend can't report usage against a limit
+  estimateUsage(): Promise<StorageUsage | null>;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json", ...init.headers } : init?.headers,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request to ${url} failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+/** Access to the SQLite store through the /api/workspaces, /api/documents and /api/queries routes. */
+export const serverStore: DocumentStore = {
+  mode: "server",
+
+  async fetchWorkspaces() {
+    const { workspaces } = await request<{ workspaces: Workspace[] }>("/api/workspaces");
+    return workspaces;
+  },
+
+  async createWorkspace(workspace) {
+    await request("/api/workspaces", { method: "POST", body: JSON.stringify({ workspace }) });
+  },
+
+  async renameWorkspace(id, name) {
+    await request(`/api/workspaces/${encodeURIComponent(id)}`, { method: "PUT", body: JSON.stringify({ name }) });
+  },
+
+  async removeWorkspace(id) {
+    await request(`/api/workspaces/${encodeURIComponent(id)}`, { method: "DELETE" });
+  },
+
+  async fetchDocuments(workspaceId) {
+    const { documents } = await request<{ documents: StoredDocument[] }>(
+      `/api/documents?workspaceId=${encodeURIComponent(workspaceId)}`
+    );
+    return documents;
+  },
+
+  async createDocuments(documents) {
+    await request("/api/documents", { method: "POST", body: JSON.stringify({ documents }) });
+  },
+
+  async updateDocument(document) {
+    await request(`/api/documents/${encodeURIComponent(document.id)}`, {
+      method: "PUT",
+      body: JSON.stringify({ document }),
+    });
+  },
+
+  async removeDocument(id) {
+    await request(`/api/documents/${encodeURIComponent(id)}`, { method: "DELETE" });
+  },
+
+  async clearDocuments(workspaceId) {
+    await request(`/api/documents?workspaceId=${encodeURIComponent(workspaceId)}`, { method: "DELETE" });
+  },
+
+  async fetchChunks(documentId) {
+    const { chunks } = await request<{ chunks: DocumentChunk[] }>(
+      `/api/documents/${encodeURIComponent(documentId)}/chunks`
+    );
+    return chunks;
+  },
+
+  async fetchQueryResults(workspaceId) {
+    const { queries } = await request<{ queries: QueryResult[] }>(
+      `/api/queries?workspaceId=${encodeURIComponent(workspaceId)}`
+    );
+    return queries;
+  },
+
+  async createQueryResults(queries) {
+    await request("/api/queries", { method: "POST", body: JSON.stringify({ queries }) });
+  },
+
+  async removeQueryResult(id) {
+    await request(`/api/queries/${encodeURIComponent(id)}`, { method: "DELETE" });
+  },
+
+  async clearQueryResults(workspaceId) {
+    await request(`/api/queries?workspaceId=${encodeURIComponent(workspaceId)}`, { method: "DELETE" });
+  },
+
+  async estimateUsage() {
+    return null;
+  },
+};
+
+/**
+ * The store selected by NEXT_PUBLIC_STORAGE_MODE: "server" (default) for the
+ * shared SQLite store, or "browser" for standalone deployments that keep
+ * everything in the browser's IndexedDB.
+ */
+export function getDocumentStore(): DocumentStore {
+  return process.env.NEXT_PUBLIC_STORAGE_MODE === "browser" ? indexedDbStore : serverStore;
+}
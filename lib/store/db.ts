@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { DEFAULT_WORKSPACE } from "./defaults";
+
+const DEFAULT_DATABASE_PATH = path.join(process.cwd(), "data", "llm-system.db");
+
+// Documents keep their JSON-shaped parts (pages, metadata, clauses) as JSON text;
+// chunks get their own table so they can be read and replaced per document
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS workspaces (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS documents (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL DEFAULT '${DEFAULT_WORKSPACE.id}',
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    size TEXT NOT NULL,
+    content TEXT NOT NULL,
+    pages TEXT NOT NULL,
+    metadata TEXT NOT NULL,
+    clauses TEXT NOT NULL,
+    process_time TEXT NOT NULL,
+    status TEXT NOT NULL,
+    upload_date TEXT NOT NULL,
+    parent_id TEXT REFERENCES documents(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    attachment_ids TEXT NOT NULL DEFAULT '[]',
+    pdf_data TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    version_group_id TEXT,
+    version INTEGER,
+    effective_from TEXT,
+    content_hash TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS chunks (
+    document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    start_offset INTEGER NOT NULL,
+    end_offset INTEGER NOT NULL,
+    page INTEGER,
+    embedding TEXT,
+    PRIMARY KEY (document_id, id)
+  );
+
+  CREATE TABLE IF NOT EXISTS query_results (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL DEFAULT '${DEFAULT_WORKSPACE.id}',
+    thread_id TEXT,
+    query TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS query_results_timestamp ON query_results (timestamp);
+`;
+
+// Columns added after the first release, for databases created before them
+const ADDED_COLUMNS = [
+  { table: "documents", column: "workspace_id", definition: `TEXT NOT NULL DEFAULT '${DEFAULT_WORKSPACE.id}'` },
+  { table: "query_results", column: "workspace_id", definition: `TEXT NOT NULL DEFAULT '${DEFAULT_WORKSPACE.id}'` },
+  { table: "documents", column: "tags", definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { table: "documents", column: "version_group_id", definition: "TEXT" },
+  { table: "documents", column: "version", definition: "INTEGER" },
+  { table: "documents", column: "effective_from", definition: "TEXT" },
+  { table: "documents", column: "content_hash", definition: "TEXT" },
+];
+
+function migrate(database: Database.Database) {
+  database.exec(SCHEMA);
+  for (const { table, column, definition } of ADDED_COLUMNS) {
+    const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some((existing) => existing.name === column)) {
+      database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS documents_workspace ON documents (workspace_id);
+    CREATE INDEX IF NOT EXISTS query_results_workspace ON query_results (workspace_id);
+  `);
+  database
+    .prepare("INSERT OR IGNORE INTO workspaces (id, name, created_at) VALUES (?, ?, ?)")
+    .run(DEFAULT_WORKSPACE.id, DEFAULT_WORKSPACE.name, DEFAULT_WORKSPACE.createdAt);
+}
+
+// Dev-mode reloads re-evaluate this module; keeping the connection on globalThis avoids reopening the file each time
+const globalForDatabase = globalThis as { llmDatabase?: Database.Database };
+
+/**
+ * Opens the SQLite store, creating the file and schema on first use.
+ * DATABASE_PATH overrides the default of data/llm-system.db under the
+ * working directory; ":memory:" gives a throwaway store.
+ */
+export function getDatabase(): Database.Database {
+  if (!globalForDatabase.llmDatabase) {
+    const file = process.env.DATABASE_PATH || DEFAULT_DATABASE_PATH;
+    if (file !== ":memory:") {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+    const database = new Database(file);
+    database.pragma("journal_mode = WAL");
+    database.pragma("foreign_keys = ON");
+    migrate(database);
+    globalForDatabase.llmDatabase = database;
+  }
+  return globalForDatabase.llmDatabase;
+}
@@ -0,0 +1,12 @@
+import type { Workspace } from "./types";
+
+// Always present, and home to everything stored before workspaces existed
+export const DEFAULT_WORKSPACE: Workspace = {
+  id: "default",
+  name: "General",
+  createdAt: "1970-01-01T00:00:00.000Z",
+};
+
+export function workspaceOf(record: { workspaceId?: string }) {
+  return record.workspaceId ?? DEFAULT_WORKSPACE.id;
+}
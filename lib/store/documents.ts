@@ -0,0 +1,257 @@
+import type { ChunkEmbedding, RetrievalDocument } from "@/lib/retrieval";
+import type { DocumentChunk } from "@/lib/segmentation";
+import { getDatabase } from "./db";
+import { workspaceOf } from "./defaults";
+import type { StoredDocument } from "./types";
+
+interface DocumentRow {
+  id: string;
+  workspace_id: string;
+  name: string;
+  type: string;
+  size: string;
+  content: string;
+  pages: string;
+  metadata: string;
+  clauses: string;
+  process_time: string;
+  status: StoredDocument["status"];
+  upload_date: string;
+  parent_id: string | null;
+  attachment_ids: string;
+  pdf_data: string | null;
+  tags: string;
+  version_group_id: string | null;
+  version: number | null;
+  effective_from: string | null;
+  content_hash: string | null;
+}
+
+interface ChunkRow {
+  document_id: string;
+  id: string;
+  position: number;
+  text: string;
+  start_offset: number;
+  end_offset: number;
+  page: number | null;
+  // Not selected when listing documents for the browser
+  embedding?: string | null;
+}
+
+function toDocument(row: DocumentRow, chunks: DocumentChunk[]): StoredDocument {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    type: row.type,
+    size: row.size,
+    content: row.content,
+    pages: JSON.parse(row.pages),
+    metadata: JSON.parse(row.metadata),
+    clauses: JSON.parse(row.clauses),
+    chunks,
+    processTime: row.process_time,
+    status: row.status,
+    uploadDate: row.upload_date,
+    parentId: row.parent_id ?? undefined,
+    attachmentIds: JSON.parse(row.attachment_ids),
+    pdfData: row.pdf_data ?? undefined,
+    tags: JSON.parse(row.tags),
+    versionGroupId: row.version_group_id ?? undefined,
+    version: row.version ?? undefined,
+    effectiveFrom: row.effective_from ?? undefined,
+    contentHash: row.content_hash ?? undefined,
+  };
+}
+
+function toChunk(row: ChunkRow): DocumentChunk {
+  return {
+    id: row.id,
+    index: row.position,
+    text: row.text,
+    start: row.start_offset,
+    end: row.end_offset,
+    page: row.page ?? undefined,
+    embedding: row.embedding ? JSON.parse(row.embedding) : undefined,
+  };
+}
+
+function groupChunks(rows: ChunkRow[]) {
+  const byDocument = new Map<string, DocumentChunk[]>();
+  for (const row of rows) {
+    const chunks = byDocument.get(row.document_id) ?? [];
+    chunks.push(toChunk(row));
+    byDocument.set(row.document_id, chunks);
+  }
+  return byDocument;
+}
+
+// Chunk columns sent with document lists. Embeddings stay on the server, where retrieval reads them
+// through withStoredEmbeddings, rather than going to the browser with every list
+const LISTED_CHUNK_COLUMNS = "chunks.document_id, chunks.id, chunks.position, chunks.text, chunks.start_offset, chunks.end_offset, chunks.page";
+
+/** Stored documents with their chunks (without embeddings), oldest first; all of them, or those of one workspace. */
+export function listDocuments(workspaceId?: string): StoredDocument[] {
+  const database = getDatabase();
+  const rows = (
+    workspaceId
+      ? database.prepare("SELECT * FROM documents WHERE workspace_id = ? ORDER BY upload_date, rowid").all(workspaceId)
+      : database.prepare("SELECT * FROM documents ORDER BY upload_date, rowid").all()
+  ) as DocumentRow[];
+  const chunks = groupChunks(
+    (workspaceId
+      ? database
+          .prepare(`
+            SELECT ${LISTED_CHUNK_COLUMNS} FROM chunks JOIN documents ON documents.id = chunks.document_id
+            WHERE documents.workspace_id = ? ORDER BY chunks.document_id, chunks.position
+          `)
+          .all(workspaceId)
+      : database.prepare(`SELECT ${LISTED_CHUNK_COLUMNS} FROM chunks ORDER BY document_id, position`).all()) as ChunkRow[]
+  );
+  return rows.map((row) => toDocument(row, chunks.get(row.id) ?? []));
+}
+
+export function getDocument(id: string): StoredDocument | null {
+  const database = getDatabase();
+  const row = database.prepare("SELECT * FROM documents WHERE id = ?").get(id) as DocumentRow | undefined;
+  return row ? toDocument(row, listChunks(id)) : null;
+}
+
+export function listChunks(documentId: string): DocumentChunk[] {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM chunks WHERE document_id = ? ORDER BY position")
+    .all(documentId) as ChunkRow[];
+  return rows.map(toChunk);
+}
+
+function writeChunks(documentId: string, chunks: DocumentChunk[]) {
+  const database = getDatabase();
+  // Documents come back from the browser without the embeddings listDocuments leaves out,
+  // so a stored embedding is kept for a chunk re-saved with the same text
+  const stored = database
+    .prepare("SELECT id, text, embedding FROM chunks WHERE document_id = ? AND embedding IS NOT NULL")
+    .all(documentId) as Array<{ id: string; text: string; embedding: string }>;
+  const storedEmbeddings = new Map(stored.map((row) => [`${row.id}\0${row.text}`, row.embedding]));
+  database.prepare("DELETE FROM chunks WHERE document_id = ?").run(documentId);
+  const insert = database.prepare(`
+    INSERT INTO chunks (document_id, id, position, text, start_offset, end_offset, page, embedding)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const chunk of chunks) {
+    insert.run(
+      documentId,
+      chunk.id,
+      chunk.index,
+      chunk.text,
+      chunk.start,
+      chunk.end,
+      chunk.page ?? null,
+      chunk.embedding ? JSON.stringify(chunk.embedding) : storedEmbeddings.get(`${chunk.id}\0${chunk.text}`) ?? null
+    );
+  }
+}
+
+/** Fills in stored chunk embeddings for documents sent for retrieval without them. */
+export function withStoredEmbeddings(documents: RetrievalDocument[]): RetrievalDocument[] {
+  const select = getDatabase().prepare("SELECT id, embedding FROM chunks WHERE document_id = ? AND embedding IS NOT NULL");
+  return documents.map((document) => {
+    const rows = select.all(document.id) as Array<{ id: string; embedding: string }>;
+    const embeddings = new Map(rows.map((row) => [row.id, JSON.parse(row.embedding) as number[]]));
+    return {
+      ...document,
+      chunks: document.chunks.map((chunk) =>
+        chunk.embedding || !embeddings.has(chunk.id) ? chunk : { ...chunk, embedding: embeddings.get(chunk.id) }
+      ),
+    };
+  });
+}
+
+/** Stores embeddings computed for chunks that were saved without them. */
+export function saveChunkEmbeddings(embeddings: ChunkEmbedding[]) {
+  const database = getDatabase();
+  const update = database.prepare("UPDATE chunks SET embedding = ? WHERE document_id = ? AND id = ?");
+  database.transaction(() => {
+    for (const { documentId, chunkId, embedding } of embeddings) {
+      update.run(JSON.stringify(embedding), documentId, chunkId);
+    }
+  })();
+}
+
+/** Replaces a document's chunks, e.g. after re-segmenting it. Returns false when the document does not exist. */
+export function replaceChunks(documentId: string, chunks: DocumentChunk[]): boolean {
+  const database = getDatabase();
+  const exists = database.prepare("SELECT 1 FROM documents WHERE id = ?").get(documentId);
+  if (!exists) return false;
+  database.transaction(() => writeChunks(documentId, chunks))();
+  return true;
+}
+
+/**
+ * Inserts or updates documents and their chunks in one transaction.
+ * Updating in place (rather than INSERT OR REPLACE) keeps the cascade
+ * from deleting a re-saved email's attachments.
+ */
+export function saveDocuments(documents: StoredDocument[]) {
+  const database = getDatabase();
+  const upsert = database.prepare(`
+    INSERT INTO documents (
+      id, workspace_id, name, type, size, content, pages, metadata, clauses,
+      process_time, status, upload_date, parent_id, attachment_ids, pdf_data, tags,
+      version_group_id, version, effective_from, content_hash
+    ) VALUES (
+      @id, @workspaceId, @name, @type, @size, @content, @pages, @metadata, @clauses,
+      @processTime, @status, @uploadDate, @parentId, @attachmentIds, @pdfData, @tags,
+      @versionGroupId, @version, @effectiveFrom, @contentHash
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      workspace_id = excluded.workspace_id, name = excluded.name, type = excluded.type,
+      size = excluded.size, content = excluded.content,
+      pages = excluded.pages, metadata = excluded.metadata, clauses = excluded.clauses,
+      process_time = excluded.process_time, status = excluded.status, upload_date = excluded.upload_date,
+      parent_id = excluded.parent_id, attachment_ids = excluded.attachment_ids, pdf_data = excluded.pdf_data,
+      tags = excluded.tags, version_group_id = excluded.version_group_id, version = excluded.version,
+      effective_from = excluded.effective_from, content_hash = excluded.content_hash
+  `);
+
+  database.transaction(() => {
+    for (const document of documents) {
+      upsert.run({
+        id: document.id,
+        workspaceId: workspaceOf(document),
+        name: document.name,
+        type: document.type,
+        size: document.size,
+        content: document.content,
+        pages: JSON.stringify(document.pages ?? []),
+        metadata: JSON.stringify(document.metadata ?? {}),
+        clauses: JSON.stringify(document.clauses ?? []),
+        processTime: document.processTime,
+        status: document.status,
+        uploadDate: document.uploadDate,
+        parentId: document.parentId ?? null,
+        attachmentIds: JSON.stringify(document.attachmentIds ?? []),
+        pdfData: document.pdfData ?? null,
+        tags: JSON.stringify(document.tags ?? []),
+        versionGroupId: document.versionGroupId ?? null,
+        version: document.version ?? null,
+        effectiveFrom: document.effectiveFrom ?? null,
+        contentHash: document.contentHash ?? null,
+      });
+      writeChunks(document.id, document.chunks ?? []);
+    }
+  })();
+}
+
+/** Deletes a document; its chunks and any attachments extracted from it go with it. */
+export function deleteDocument(id: string): boolean {
+  return getDatabase().prepare("DELETE FROM documents WHERE id = ?").run(id).changes > 0;
+}
+
+/** Deletes all documents, or only those of one workspace. */
+export function clearDocuments(workspaceId?: string): number {
+  const database = getDatabase();
+  return workspaceId
+    ? database.prepare("DELETE FROM documents WHERE workspace_id = ?").run(workspaceId).changes
+    : database.prepare("DELETE FROM documents").run().changes;
+}
@@ -0,0 +1,12 @@
+export class StorageQuotaError extends Error {
+  constructor(
+    message: string,
+    // Bytes in use, bytes available to this origin, and bytes the rejected write needed
+    readonly usage?: number,
+    readonly quota?: number,
+    readonly required?: number
+  ) {
+    super(message);
+    this.name = "StorageQuotaError";
+  }
+}
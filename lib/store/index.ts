@@ -0,0 +1,17 @@
+export { getDatabase } from "./db";
+export { DEFAULT_WORKSPACE, workspaceOf } from "./defaults";
+export {
+  clearDocuments,
+  deleteDocument,
+  getDocument,
+  listChunks,
+  listDocuments,
+  replaceChunks,
+  saveChunkEmbeddings,
+  saveDocuments,
+  withStoredEmbeddings,
+} from "./documents";
+export { clearQueryResults, deleteQueryResult, getQueryResult, listQueryResults, saveQueryResults } from "./queries";
+export { deleteWorkspace, getWorkspace, listWorkspaces, saveWorkspace } from "./workspaces";
+export { documentTags, resolveDocumentScope } from "./scope";
+export type { DocumentScope, DocumentVersionUsed, QueryResult, StoredDocument, Workspace } from "./types";
@@ -0,0 +1,249 @@
+import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+import type { DocumentChunk } from "@/lib/segmentation";
+import type { DocumentStore } from "./client";
+import { DEFAULT_WORKSPACE, workspaceOf } from "./defaults";
+import { StorageQuotaError } from "./errors";
+import type { QueryResult, StoredDocument, Workspace } from "./types";
+
+const DATABASE_NAME = "llm-system";
+const DATABASE_VERSION = 2;
+
+// Writes are refused when they would take usage past this share of the quota,
+// leaving room for the browser's own bookkeeping
+const QUOTA_HEADROOM = 0.95;
+
+type DocumentRecord = Omit<StoredDocument, "chunks">;
+
+// Embeddings are kept as Float32Array, half the size of the number[] they arrive as
+interface ChunkRecord extends Omit<DocumentChunk, "embedding"> {
+  documentId: string;
+  embedding?: Float32Array;
+}
+
+interface LlmSystemSchema extends DBSchema {
+  workspaces: { key: string; value: Workspace };
+  documents: { key: string; value: DocumentRecord };
+  chunks: { key: [string, string]; value: ChunkRecord; indexes: { documentId: string } };
+  queries: { key: string; value: QueryResult; indexes: { timestamp: string } };
+}
+
+let databasePromise: Promise<IDBPDatabase<LlmSystemSchema>> | undefined;
+
+function getDatabase() {
+  if (!databasePromise) {
+    databasePromise = openDB<LlmSystemSchema>(DATABASE_NAME, DATABASE_VERSION, {
+      upgrade(database, oldVersion, _newVersion, transaction) {
+        if (oldVersion < 1) {
+          database.createObjectStore("documents", { keyPath: "id" });
+          database.createObjectStore("chunks", { keyPath: ["documentId", "id"] }).createIndex("documentId", "documentId");
+          database.createObjectStore("queries", { keyPath: "id" }).createIndex("timestamp", "timestamp");
+        }
+        // Records from version 1 have no workspaceId and are read as belonging to the default workspace
+        if (oldVersion < 2) {
+          database.createObjectStore("workspaces", { keyPath: "id" });
+          transaction.objectStore("workspaces").put(DEFAULT_WORKSPACE);
+        }
+      },
+    });
+    // Without this the browser may evict the data under storage pressure; it's fine if the request is denied
+    navigator.storage?.persist?.().catch(() => undefined);
+  }
+  return databasePromise;
+}
+
+function toChunkRecord(documentId: string, { embedding, ...chunk }: DocumentChunk): ChunkRecord {
+  return { ...chunk, documentId, embedding: embedding ? Float32Array.from(embedding) : undefined };
+}
+
+function toChunk({ documentId, embedding, ...chunk }: ChunkRecord): DocumentChunk {
+  return { ...chunk, embedding: embedding ? Array.from(embedding) : undefined };
+}
+
+async function estimateUsage() {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+}
+
+// Refuses a write up front rather than letting the transaction abort part way through
+async function ensureCapacity(values: unknown[]) {
+  const estimate = await estimateUsage();
+  if (!estimate) return;
+  // JSON length in UTF-16 code units is a rough upper bound on the stored size
+  const required = values.reduce<number>((acc, value) => acc + JSON.stringify(value).length * 2, 0);
+  if (estimate.usage + required > estimate.quota * QUOTA_HEADROOM) {
+    throw new StorageQuotaError(
+      "Not enough browser storage for this data. Remove documents or history to free up space.",
+      estimate.usage,
+      estimate.quota,
+      required
+    );
+  }
+}
+
+// The browser can still reject a write the estimate allowed
+async function withQuotaHandling<T>(write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      throw new StorageQuotaError("Browser storage is full. Remove documents or history to free up space.");
+    }
+    throw error;
+  }
+}
+
+async function putDocuments(documents: StoredDocument[]) {
+  const database = await getDatabase();
+  const transaction = database.transaction(["documents", "chunks"], "readwrite");
+  const chunkStore = transaction.objectStore("chunks");
+  for (const { chunks, ...document } of documents) {
+    transaction.objectStore("documents").put(document);
+    for (const key of await chunkStore.index("documentId").getAllKeys(document.id)) {
+      chunkStore.delete(key);
+    }
+    for (const chunk of chunks ?? []) {
+      chunkStore.put(toChunkRecord(document.id, chunk));
+    }
+  }
+  await transaction.done;
+}
+
+/** Documents, chunks, embeddings and history kept in this browser's IndexedDB. */
+export const indexedDbStore: DocumentStore = {
+  mode: "browser",
+
+  async fetchWorkspaces() {
+    const database = await getDatabase();
+    return (await database.getAll("workspaces")).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async createWorkspace(workspace) {
+    const database = await getDatabase();
+    await database.put("workspaces", workspace);
+  },
+
+  async renameWorkspace(id, name) {
+    const database = await getDatabase();
+    const workspace = await database.get("workspaces", id);
+    if (workspace) await database.put("workspaces", { ...workspace, name });
+  },
+
+  async removeWorkspace(id) {
+    if (id === DEFAULT_WORKSPACE.id) return;
+    await indexedDbStore.clearDocuments(id);
+    await indexedDbStore.clearQueryResults(id);
+    const database = await getDatabase();
+    await database.delete("workspaces", id);
+  },
+
+  async fetchDocuments(workspaceId) {
+    const database = await getDatabase();
+    const documents = (await database.getAll("documents")).filter((document) => workspaceOf(document) === workspaceId);
+    const ids = new Set(documents.map((document) => document.id));
+    const chunks = (await database.getAll("chunks")).filter((record) => ids.has(record.documentId));
+    const byDocument = new Map<string, DocumentChunk[]>();
+    for (const record of chunks) {
+      const list = byDocument.get(record.documentId) ?? [];
+      list.push(toChunk(record));
+      byDocument.set(record.documentId, list);
+    }
+    return documents
+      .map((document) => ({
+        ...document,
+        chunks: (byDocument.get(document.id) ?? []).sort((a, b) => a.index - b.index),
+      }))
+      .sort((a, b) => a.uploadDate.localeCompare(b.uploadDate));
+  },
+
+  async createDocuments(documents) {
+    await ensureCapacity(documents);
+    await withQuotaHandling(() => putDocuments(documents));
+  },
+
+  async updateDocument(document) {
+    await withQuotaHandling(() => putDocuments([document]));
+  },
+
+  async removeDocument(id) {
+    const database = await getDatabase();
+    // Attachments extracted from an email go with it, as in the server store
+    const documents = await database.getAll("documents");
+    const removedIds = new Set([id]);
+    let found = true;
+    while (found) {
+      found = false;
+      for (const document of documents) {
+        if (document.parentId && removedIds.has(document.parentId) && !removedIds.has(document.id)) {
+          removedIds.add(document.id);
+          found = true;
+        }
+      }
+    }
+
+    const transaction = database.transaction(["documents", "chunks"], "readwrite");
+    const chunkStore = transaction.objectStore("chunks");
+    for (const removedId of removedIds) {
+      transaction.objectStore("documents").delete(removedId);
+      for (const key of await chunkStore.index("documentId").getAllKeys(removedId)) {
+        chunkStore.delete(key);
+      }
+    }
+    await transaction.done;
+  },
+
+  async clearDocuments(workspaceId) {
+    const database = await getDatabase();
+    const transaction = database.transaction(["documents", "chunks"], "readwrite");
+    const chunkStore = transaction.objectStore("chunks");
+    for (const document of await transaction.objectStore("documents").getAll()) {
+      if (workspaceOf(document) !== workspaceId) continue;
+      transaction.objectStore("documents").delete(document.id);
+      for (const key of await chunkStore.index("documentId").getAllKeys(document.id)) {
+        chunkStore.delete(key);
+      }
+    }
+    await transaction.done;
+  },
+
+  async fetchChunks(documentId) {
+    const database = await getDatabase();
+    const records = await database.getAllFromIndex("chunks", "documentId", documentId);
+    return records.map(toChunk).sort((a, b) => a.index - b.index);
+  },
+
+  async fetchQueryResults(workspaceId) {
+    const database = await getDatabase();
+    return (await database.getAllFromIndex("queries", "timestamp"))
+      .filter((query) => workspaceOf(query) === workspaceId)
+      .reverse();
+  },
+
+  async createQueryResults(queries) {
+    await ensureCapacity(queries);
+    await withQuotaHandling(async () => {
+      const database = await getDatabase();
+      const transaction = database.transaction("queries", "readwrite");
+      for (const query of queries) {
+        transaction.store.put(query);
+      }
+      await transaction.done;
+    });
+  },
+
+  async removeQueryResult(id) {
+    const database = await getDatabase();
+    await database.delete("queries", id);
+  },
+
+  async clearQueryResults(workspaceId) {
+    const database = await getDatabase();
+    const transaction = database.transaction("queries", "readwrite");
+    for (const query of await transaction.store.getAll()) {
+      if (workspaceOf(query) === workspaceId) transaction.store.delete(query.id);
+    }
+    await transaction.done;
+  },
+
+  estimateUsage,
+};
@@ -0,0 +1,70 @@
+import { getDatabase } from "./db";
+import { workspaceOf } from "./defaults";
+import type { QueryResult } from "./types";
+
+// The result is stored whole as JSON; id, thread and time are columns for ordering and lookups
+interface QueryResultRow {
+  id: string;
+  workspace_id: string;
+  thread_id: string | null;
+  query: string;
+  timestamp: string;
+  data: string;
+}
+
+function toQueryResult(row: QueryResultRow): QueryResult {
+  return { ...JSON.parse(row.data), workspaceId: row.workspace_id };
+}
+
+/** Query results, newest first as the History tab lists them; all of them, or those of one workspace. */
+export function listQueryResults(workspaceId?: string): QueryResult[] {
+  const database = getDatabase();
+  const rows = (
+    workspaceId
+      ? database
+          .prepare("SELECT * FROM query_results WHERE workspace_id = ? ORDER BY timestamp DESC, rowid DESC")
+          .all(workspaceId)
+      : database.prepare("SELECT * FROM query_results ORDER BY timestamp DESC, rowid DESC").all()
+  ) as QueryResultRow[];
+  return rows.map(toQueryResult);
+}
+
+export function getQueryResult(id: string): QueryResult | null {
+  const row = getDatabase().prepare("SELECT * FROM query_results WHERE id = ?").get(id) as QueryResultRow | undefined;
+  return row ? toQueryResult(row) : null;
+}
+
+export function saveQueryResults(results: QueryResult[]) {
+  const database = getDatabase();
+  const upsert = database.prepare(`
+    INSERT INTO query_results (id, workspace_id, thread_id, query, timestamp, data)
+    VALUES (@id, @workspaceId, @threadId, @query, @timestamp, @data)
+    ON CONFLICT (id) DO UPDATE SET
+      workspace_id = excluded.workspace_id, thread_id = excluded.thread_id, query = excluded.query,
+      timestamp = excluded.timestamp, data = excluded.data
+  `);
+  database.transaction(() => {
+    for (const result of results) {
+      upsert.run({
+        id: result.id,
+        workspaceId: workspaceOf(result),
+        threadId: result.threadId ?? null,
+        query: result.query,
+        timestamp: result.timestamp,
+        data: JSON.stringify(result),
+      });
+    }
+  })();
+}
+
+export function deleteQueryResult(id: string): boolean {
+  return getDatabase().prepare("DELETE FROM query_results WHERE id = ?").run(id).changes > 0;
+}
+
+/** Deletes all query results, or only those of one workspace. */
+export function clearQueryResults(workspaceId?: string): number {
+  const database = getDatabase();
+  return workspaceId
+    ? database.prepare("DELETE FROM query_results WHERE workspace_id = ?").run(workspaceId).changes
+    : database.prepare("DELETE FROM query_results").run().changes;
+}
@@ -0,0 +1,39 @@
+import { versionGroupOf } from "@/lib/versions";
+import type { DocumentScope, StoredDocument } from "./types";
+
+/** Distinct tags across the documents, sorted. */
+export function documentTags(documents: StoredDocument[]) {
+  return Array.from(new Set(documents.flatMap((document) => document.tags ?? []))).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * The documents a scope selects, in their stored order. No scope selects
+ * everything; selecting a document selects all of its versions, and
+ * attachments follow the email they were extracted from.
+ */
+export function resolveDocumentScope(documents: StoredDocument[], scope?: DocumentScope | null) {
+  if (!scope) return documents;
+
+  const selected = new Set(
+    documents
+      .filter((document) =>
+        scope.documentIds.includes(document.id) || (document.tags ?? []).some((tag) => scope.tags.includes(tag))
+      )
+      .map((document) => document.id)
+  );
+  const groups = new Set(documents.filter((document) => selected.has(document.id)).map(versionGroupOf));
+  for (const document of documents) {
+    if (!document.parentId && groups.has(versionGroupOf(document))) selected.add(document.id);
+  }
+  let found = true;
+  while (found) {
+    found = false;
+    for (const document of documents) {
+      if (document.parentId && selected.has(document.parentId) && !selected.has(document.id)) {
+        selected.add(document.id);
+        found = true;
+      }
+    }
+  }
+  return documents.filter((document) => selected.has(document.id));
+}
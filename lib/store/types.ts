@@ -0,0 +1,88 @@
+import type { ParsedAmount } from "@/lib/amount";
+import type { CitationCheck } from "@/lib/citations";
+import type { ClaimProfile } from "@/lib/claim-profile";
+import type { ProcessingResult } from "@/lib/decision";
+import type { DocumentMetadata, DocumentPage } from "@/lib/ingestion/types";
+import type { ModelInfo } from "@/lib/llm/provider";
+import type { RetrievedChunk } from "@/lib/retrieval";
+import type { RulesEvaluation } from "@/lib/rules";
+import type { DocumentChunk, DocumentClause } from "@/lib/segmentation";
+
+// A case folder, per claim or per customer, owning a set of documents and their query history
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface StoredDocument {
+  id: string;
+  // Unset on documents stored before workspaces existed, which belong to the default workspace
+  workspaceId?: string;
+  name: string;
+  content: string;
+  pages: DocumentPage[];
+  metadata: DocumentMetadata;
+  chunks: DocumentChunk[];
+  clauses: DocumentClause[];
+  size: string;
+  processTime: string;
+  status: "stored" | "processing";
+  uploadDate: string;
+  type: string;
+  // Set on documents extracted from an email's attachments
+  parentId?: string;
+  // Base64 of the uploaded PDF, for rendering its original pages
+  pdfData?: string;
+  attachmentIds?: string[];
+  // User-assigned labels, e.g. the insurer, for selecting documents to query
+  tags?: string[];
+  // Renewed wordings uploaded under the same name share the first version's id
+  versionGroupId?: string;
+  version?: number;
+  // YYYY-MM-DD from which this version applies to claims
+  effectiveFrom?: string;
+  // SHA-256 of the whitespace-normalized content, set at ingestion
+  contentHash?: string;
+}
+
+// The version of a multi-version document that a query was evaluated against
+export interface DocumentVersionUsed {
+  documentId: string;
+  name: string;
+  version: number;
+  effectiveFrom?: string;
+}
+
+// The documents a query ran against: those listed, those carrying any of the tags, and their attachments
+export interface DocumentScope {
+  documentIds: string[];
+  tags: string[];
+}
+
+export interface QueryResult {
+  id: string;
+  workspaceId?: string;
+  query: string;
+  timestamp: string;
+  result: ProcessingResult;
+  processingTime: number;
+  // Chunks the retrieval step selected and sent to the model
+  retrievedChunks?: RetrievedChunk[];
+  model?: ModelInfo;
+  // Unset when the query ran against every document in the workspace
+  documentScope?: DocumentScope;
+  // Versions in force on the claim date, for documents that have more than one
+  documentVersions?: DocumentVersionUsed[];
+  // Follow-up answers in a clarification thread share the id of the thread's first query
+  threadId?: string;
+  // Claim details as parsed from the query and reviewed by the user
+  claimProfile?: ClaimProfile;
+  // Rule outcomes computed in code and cross-checked against the decision
+  rules?: RulesEvaluation;
+  amount?: ParsedAmount | null;
+  // Verification of each Clause_References entry, in the same order
+  citations?: CitationCheck[];
+  // Confidence as returned by the model, before unverified citations lowered it
+  modelConfidence?: number;
+}
@@ -0,0 +1,49 @@
+import { getDatabase } from "./db";
+import { DEFAULT_WORKSPACE } from "./defaults";
+import type { Workspace } from "./types";
+
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+function toWorkspace(row: WorkspaceRow): Workspace {
+  return { id: row.id, name: row.name, createdAt: row.created_at };
+}
+
+/** All workspaces, the default one first and the rest in creation order. */
+export function listWorkspaces(): Workspace[] {
+  const rows = getDatabase().prepare("SELECT * FROM workspaces ORDER BY created_at, rowid").all() as WorkspaceRow[];
+  return rows.map(toWorkspace);
+}
+
+export function getWorkspace(id: string): Workspace | null {
+  const row = getDatabase().prepare("SELECT * FROM workspaces WHERE id = ?").get(id) as WorkspaceRow | undefined;
+  return row ? toWorkspace(row) : null;
+}
+
+/** Creates a workspace or renames an existing one. */
+export function saveWorkspace(workspace: Workspace) {
+  getDatabase()
+    .prepare(`
+      INSERT INTO workspaces (id, name, created_at) VALUES (@id, @name, @createdAt)
+      ON CONFLICT (id) DO UPDATE SET name = excluded.name
+    `)
+    .run(workspace);
+}
+
+/**
+ * Deletes a workspace along with its documents and query history.
+ * The default workspace can't be deleted; returns false for it and for
+ * unknown ids.
+ */
+export function deleteWorkspace(id: string): boolean {
+  if (id === DEFAULT_WORKSPACE.id) return false;
+  const database = getDatabase();
+  return database.transaction(() => {
+    database.prepare("DELETE FROM documents WHERE workspace_id = ?").run(id);
+    database.prepare("DELETE FROM query_results WHERE workspace_id = ?").run(id);
+    return database.prepare("DELETE FROM workspaces WHERE id = ?").run(id).changes > 0;
+  })();
+}
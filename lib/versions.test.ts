@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { DocumentClause } from "@/lib/segmentation";
+import type { StoredDocument } from "@/lib/store/types";
+import { detectEffectiveDate, diffClauses, diffWords, nextVersion, selectVersionsInForce, versionInForce } from "./versions";
+
+function document(id: string, changes: Partial<StoredDocument> = {}): StoredDocument {
+  return {
+    id,
+    name: "policy.pdf",
+    content: "",
+    pages: [],
+    metadata: {} as StoredDocument["metadata"],
+    chunks: [],
+    clauses: [],
+    size: "1 KB",
+    processTime: "0.1s",
+    status: "stored",
+    uploadDate: "2024-01-01T00:00:00.000Z",
+    type: "application/pdf",
+    ...changes,
+  };
+}
+
+function clause(number: string | undefined, heading: string, text: string): DocumentClause {
+  return { id: `${number ?? heading}`, index: 0, number, heading, kind: "general", text, start: 0, end: text.length };
+}
+
+const v1 = document("v1", { versionGroupId: "v1", version: 1, effectiveFrom: "2024-04-01" });
+const v2 = document("v2", { versionGroupId: "v1", version: 2, effectiveFrom: "2025-04-01" });
+
+describe("versionInForce", () => {
+  it("picks the latest version that took effect on or before the date", () => {
+    assert.equal(versionInForce([v2, v1], "2025-03-31").id, "v1");
+    assert.equal(versionInForce([v2, v1], "2025-04-01").id, "v2");
+  });
+
+  it("falls back to the earliest version for dates before every version", () => {
+    assert.equal(versionInForce([v2, v1], "2020-01-01").id, "v1");
+  });
+});
+
+describe("selectVersionsInForce", () => {
+  it("keeps the version in force with its attachments and reports it", () => {
+    const attachment = document("a2", { parentId: "v2" });
+    const { documents, versions } = selectVersionsInForce([v1, v2, attachment], "15/06/2025");
+    assert.deepEqual(documents.map((doc) => doc.id), ["v2", "a2"]);
+    assert.deepEqual(versions, [{ documentId: "v2", name: "policy.pdf", version: 2, effectiveFrom: "2025-04-01" }]);
+  });
+});
+
+describe("nextVersion", () => {
+  it("numbers after the highest version in the group", () => {
+    assert.deepEqual(nextVersion([v1, v2], v1), { versionGroupId: "v1", version: 3 });
+  });
+});
+
+describe("detectEffectiveDate", () => {
+  it("reads the date following an effective-date phrase", () => {
+    assert.equal(detectEffectiveDate("Policy Wording\nEffective Date: 01/04/2025\n1. Definitions"), "2025-04-01");
+    assert.equal(detectEffectiveDate("Policy Wording\n1. Definitions"), undefined);
+  });
+});
+
+describe("diffClauses", () => {
+  it("matches clauses by number and reports changes in the newer order", () => {
+    const older = [clause("1", "Definitions", "Hospital means..."), clause("2", "Waiting", "24 months"), clause("3", "Dental", "Excluded")];
+    const newer = [clause("1", "Definitions", "Hospital  means..."), clause("2", "Waiting", "36 months"), clause("4", "AYUSH", "Covered")];
+    assert.deepEqual(diffClauses(older, newer).map(({ change, label }) => [change, label]), [
+      ["unchanged", "1 Definitions"],
+      ["changed", "2 Waiting"],
+      ["added", "4 AYUSH"],
+      ["removed", "3 Dental"],
+    ]);
+  });
+});
+
+describe("diffWords", () => {
+  it("marks the words that differ", () => {
+    assert.deepEqual(diffWords("a waiting period of 24 months", "a waiting period of 36 months"), [
+      { type: "same", text: "a waiting period of" },
+      { type: "removed", text: "24" },
+      { type: "added", text: "36" },
+      { type: "same", text: "months" },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { parseDate, today } from "@/lib/dates";
+import type { DocumentClause } from "@/lib/segmentation";
+import type { DocumentVersionUsed, StoredDocument } from "@/lib/store/types";
+
+export type ClauseChange = "added" | "removed" | "changed" | "unchanged";
+
+export interface ClauseDiff {
+  change: ClauseChange;
+  // Section number, or the heading for unnumbered clauses
+  label: string;
+  before?: DocumentClause;
+  after?: DocumentClause;
+}
+
+export interface WordDiffSegment {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Word diffs are quadratic; longer clause pairs are shown as a whole replacement
+const MAX_WORD_DIFF_CELLS = 1_000_000;
+
+export function versionGroupOf(document: StoredDocument) {
+  return document.versionGroupId ?? document.id;
+}
+
+/** Every version in the document's group, oldest first. */
+export function documentVersions(documents: StoredDocument[], document: StoredDocument) {
+  const group = versionGroupOf(document);
+  return documents
+    .filter((doc) => !doc.parentId && versionGroupOf(doc) === group)
+    .sort((a, b) => (a.version ?? 1) - (b.version ?? 1));
+}
+
+/** The latest stored top-level document with this name, which a new upload of the same name renews. */
+export function findPreviousVersion(documents: StoredDocument[], name: string) {
+  const versions = documents.filter((doc) => !doc.parentId && doc.name.toLowerCase() === name.toLowerCase());
+  return versions.sort((a, b) => (b.version ?? 1) - (a.version ?? 1))[0];
+}
+
+/** The group and number an upload takes as the next version of a document. */
+export function nextVersion(documents: StoredDocument[], document: StoredDocument) {
+  const versions = documentVersions(documents, document);
+  return {
+    versionGroupId: versionGroupOf(document),
+    version: Math.max(document.version ?? 1, ...versions.map((doc) => doc.version ?? 1)) + 1,
+  };
+}
+
+/**
+ * The date a wording says it takes effect ("Effective Date: 01/04/2025",
+ * "with effect from 1st April 2025"), when it states one near the start.
+ */
+export function detectEffectiveDate(content: string) {
+  const lead = content.slice(0, 5000);
+  const at = lead.search(/\b(?:effective|commencement|w\.?e\.?f\.?|with effect from|valid from|period of insurance)\b/i);
+  return at === -1 ? undefined : parseDate(lead.slice(at, at + 80));
+}
+
+function effectiveFrom(document: StoredDocument) {
+  return document.effectiveFrom ?? document.uploadDate.slice(0, 10);
+}
+
+/**
+ * The version in force on a date: the latest that took effect on or
+ * before it. A date before every version falls back to the earliest.
+ */
+export function versionInForce(versions: StoredDocument[], date: string) {
+  const byDate = [...versions].sort((a, b) => effectiveFrom(a).localeCompare(effectiveFrom(b)));
+  return byDate.filter((doc) => effectiveFrom(doc) <= date).pop() ?? byDate[0];
+}
+
+/**
+ * Narrows documents to the version of each policy in force on the claim
+ * date (today when the claim has none). Attachments follow their email,
+ * and the chosen versions of multi-version documents are reported.
+ */
+export function selectVersionsInForce(documents: StoredDocument[], claimDate?: string) {
+  // Model-returned or hand-entered dates may not be ISO, which the comparisons below rely on
+  const date = (claimDate && parseDate(claimDate)) || today();
+  const groups = new Map<string, StoredDocument[]>();
+  for (const document of documents.filter((doc) => !doc.parentId)) {
+    const versions = groups.get(versionGroupOf(document)) ?? [];
+    versions.push(document);
+    groups.set(versionGroupOf(document), versions);
+  }
+
+  const kept = new Set<string>();
+  const used: DocumentVersionUsed[] = [];
+  for (const versions of groups.values()) {
+    const chosen = versionInForce(versions, date);
+    kept.add(chosen.id);
+    if (versions.length > 1) {
+      used.push({ documentId: chosen.id, name: chosen.name, version: chosen.version ?? 1, effectiveFrom: effectiveFrom(chosen) });
+    }
+  }
+  let found = true;
+  while (found) {
+    found = false;
+    for (const document of documents) {
+      if (document.parentId && kept.has(document.parentId) && !kept.has(document.id)) {
+        kept.add(document.id);
+        found = true;
+      }
+    }
+  }
+
+  return { documents: documents.filter((doc) => kept.has(doc.id)), versions: used };
+}
+
+function normalizeText(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Clauses are matched across versions by section number, or by heading when unnumbered
+function clauseKeys(clauses: DocumentClause[]) {
+  const seen = new Map<string, number>();
+  return clauses.map((clause) => {
+    const base = clause.number ?? clause.heading.toLowerCase().replace(/\s+/g, " ").trim();
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}#${count + 1}`;
+  });
+}
+
+/** Clause-by-clause comparison of two versions, in the newer version's order with removed clauses after. */
+export function diffClauses(older: DocumentClause[], newer: DocumentClause[]): ClauseDiff[] {
+  const olderKeys = clauseKeys(older);
+  const newerKeys = clauseKeys(newer);
+  const olderByKey = new Map(olderKeys.map((key, index) => [key, older[index]]));
+  const newerKeySet = new Set(newerKeys);
+
+  const diffs: ClauseDiff[] = newer.map((clause, index) => {
+    const before = olderByKey.get(newerKeys[index]);
+    const label = clause.number ? `${clause.number} ${clause.heading}` : clause.heading;
+    if (!before) return { change: "added", label, after: clause };
+    const change = normalizeText(before.text) === normalizeText(clause.text) ? "unchanged" : "changed";
+    return { change, label, before, after: clause };
+  });
+
+  older.forEach((clause, index) => {
+    if (!newerKeySet.has(olderKeys[index])) {
+      diffs.push({ change: "removed", label: clause.number ? `${clause.number} ${clause.heading}` : clause.heading, before: clause });
+    }
+  });
+  return diffs;
+}
+
+/** Word-level differences between two texts, from a longest common subsequence of their words. */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = normalizeText(before).split(" ").filter(Boolean);
+  const b = normalizeText(after).split(" ").filter(Boolean);
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    return [
+      { type: "removed", text: a.join(" ") },
+      { type: "added", text: b.join(" ") },
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment["type"], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += ` ${word}`;
+    else segments.push({ type, text: word });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return segments;
+}
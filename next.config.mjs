@@ -9,6 +9,8 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // OCR, embeddings and the SQLite store spawn worker threads or load native bindings at runtime
+  serverExternalPackages: ['tesseract.js', '@napi-rs/canvas', '@huggingface/transformers', 'better-sqlite3'],
 }
 
 export default nextConfig